@@ -8,6 +8,12 @@ export interface SessionMetadata {
   isPinned: boolean;
 }
 
+export interface SessionSnapshot {
+  metadata: SessionMetadata;
+  messages: any[];
+  runs: RunTelemetry[];
+}
+
 export interface ProgressObjective {
   id: string;
   label: string;
@@ -15,12 +21,71 @@ export interface ProgressObjective {
   context?: string;
 }
 
+export type ProviderErrorCategory =
+  | "rate_limit"
+  | "overloaded"
+  | "auth"
+  | "context_length"
+  | "malformed_response"
+  | "network"
+  | "aborted"
+  | "unknown";
+
+export type RunErrorCategory =
+  ProviderErrorCategory | "engine" | "budget_exceeded";
+
+export interface RunBudget {
+  maxTurns?: number;
+  maxConsecutiveBreaches?: number;
+  maxDurationMs?: number;
+  maxTokens?: number;
+}
+
+export interface RunError {
+  category: RunErrorCategory;
+  message: string;
+  status?: number;
+  budget?: { name: keyof RunBudget; limit: number; observed: number };
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  cachedTokens: number;
+  costUsd: number;
+  estimated: boolean;
+}
+
+export interface TurnTelemetry {
+  turn: number;
+  stage: string;
+  model: string;
+  usage: TokenUsage;
+}
+
 export interface RunTelemetry {
   runId: string;
   startedAt: number;
   completedAt?: number;
   success?: boolean;
-  error?: string;
+  error?: RunError;
+  usage?: TokenUsage;
+  turns?: TurnTelemetry[];
+}
+
+export interface UsageSummary {
+  key: string;
+  label: string;
+  runs: number;
+  promptTokens: number;
+  completionTokens: number;
+  cachedTokens: number;
+  costUsd: number;
+}
+
+export interface UsageReport {
+  bySession: UsageSummary[];
+  byDay: UsageSummary[];
 }
 
 export interface ProgressUpdate {
@@ -30,13 +95,85 @@ export interface ProgressUpdate {
   passFocus?: string;
   type?: string;
   tool?: string;
+  toolCallIndex?: number;
   args?: any;
   result?: any;
 }
 
+export interface DryRunResult {
+  response: string;
+  /** `propose_diff` arguments, in call order. */
+  plans: unknown[];
+  /** Combined unified diff of every file the run would change. */
+  patch: string;
+  files: string[];
+}
+
+export interface ArchitecturalViolation {
+  /** Workspace-relative path. */
+  filePath: string;
+  /** Unset for smells in files outside every layer. */
+  layer?: string;
+  /** 1-based position of the offending code. */
+  line: number;
+  column: number;
+  rule:
+    | "import"
+    | "module"
+    | "call"
+    | "global"
+    | "multiple-classes"
+    | "any-type"
+    | "cycle";
+  message: string;
+}
+
+export interface AuditReport {
+  root: string;
+  filesAudited: number;
+  /** Source files no layer claims; only smells are checked in them. */
+  unlayeredFiles: string[];
+  violations: ArchitecturalViolation[];
+}
+
+export type AuditFormat = "text" | "json" | "sarif";
+
+export type GraphFormat = "dot" | "json";
+
+export type ApprovalMode = "confirm" | "auto";
+
+/** Per-tool, per-path-glob and per-layer approval modes; path rules win over layer rules over tool rules. */
+export interface ApprovalPolicy {
+  tools: Record<string, ApprovalMode>;
+  paths: Record<string, ApprovalMode>;
+  layers: Record<string, ApprovalMode>;
+}
+
+export interface ApprovalRequest {
+  tool: string;
+  args: Record<string, unknown>;
+  path?: string;
+  layer?: string;
+  /** Unified diff between the file on disk and the proposed content. */
+  diff?: string;
+  command?: string;
+  /** Argument a reviewer may rewrite before approving ("content" or "command"). */
+  editable?: string;
+}
+
+export interface ApprovalDecision {
+  approved: boolean;
+  comment?: string;
+  /** Reviewer-edited arguments that replace the model's on approval. */
+  args?: Record<string, unknown>;
+}
+
 export interface Callbacks {
   onStream?: (chunk: string, runId: string) => void;
   onProgress?: (update: ProgressUpdate) => void;
+  onMessage?: (message: any) => void;
+  onApproval?: (request: ApprovalRequest) => Promise<ApprovalDecision>;
+  budget?: RunBudget;
 }
 
 export interface AutomationService {
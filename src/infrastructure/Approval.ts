@@ -0,0 +1,123 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import {
+  ApprovalDecision,
+  ApprovalMode,
+  ApprovalPolicy,
+  ApprovalRequest,
+} from "../domain/types.js";
+import {
+  createUnifiedDiff,
+  matchGlob,
+  resolvePath,
+  safeStringify,
+} from "../plumbing/Plumbing.js";
+import { getLayer } from "./Validator.js";
+import type { FileOverlay } from "./FileOverlay.js";
+
+function layerOf(filePath: string, root: string): string | undefined {
+  try {
+    return getLayer(filePath, root);
+  } catch {
+    return undefined;
+  }
+}
+
+/** Path globs are matched relative to the working directory, like the paths tools receive. */
+export function getApprovalMode(
+  policy: ApprovalPolicy,
+  tool: string,
+  filePath?: string,
+  root: string = process.cwd(),
+): ApprovalMode {
+  if (filePath) {
+    const pathRule = Object.entries(policy.paths).find(([glob]) =>
+      matchGlob(filePath, glob),
+    );
+    if (pathRule) return pathRule[1];
+    const layer = layerOf(filePath, root);
+    if (layer && policy.layers[layer]) return policy.layers[layer];
+  }
+  return policy.tools[tool] || "auto";
+}
+
+/** The strictest mode over every path a call writes: one path that needs confirmation is enough. */
+export function getStrictestApprovalMode(
+  policy: ApprovalPolicy,
+  tool: string,
+  filePaths: string[],
+  root: string = process.cwd(),
+): ApprovalMode {
+  const paths = filePaths.length > 0 ? filePaths : [undefined];
+  return paths.some((p) => getApprovalMode(policy, tool, p, root) === "confirm")
+    ? "confirm"
+    : "auto";
+}
+
+/**
+ * Describes a pending tool call for the reviewer: a diff for file writes
+ * (against `proposed` when the tool can preview its result), the command line
+ * for commands. `writes` adds the other files the call changes, such as a
+ * move's destination and rewritten importers. In a dry run the diff starts
+ * from the overlay's version.
+ */
+export async function buildApprovalRequest(
+  tool: string,
+  args: Record<string, unknown>,
+  workingDir: string,
+  proposed?: string,
+  overlay?: FileOverlay,
+  writes?: Map<string, string | null>,
+): Promise<ApprovalRequest> {
+  const request: ApprovalRequest = { tool, args };
+  if (typeof args.command === "string") {
+    request.command = args.command;
+    request.editable = "command";
+  } else if (typeof args.content === "string") {
+    request.editable = "content";
+  }
+  if (typeof args.path !== "string") return request;
+
+  request.path = args.path;
+  request.layer = layerOf(args.path, workingDir);
+  const target = resolvePath(args.path, workingDir);
+  const diffOf = async (file: string, after: string | null) => {
+    const before = await (
+      overlay ? overlay.read(file) : fs.readFile(file, "utf-8")
+    ).catch(() => null);
+    return createUnifiedDiff(
+      path.relative(workingDir, file).replace(/\\/g, "/"),
+      before,
+      after,
+    );
+  };
+  const diffs: string[] = [];
+  const after = proposed ?? args.content;
+  const hasAfter = typeof after === "string";
+  if (hasAfter) diffs.push(await diffOf(target, after));
+  for (const [file, content] of writes ?? []) {
+    if (hasAfter && path.resolve(file) === target) continue;
+    diffs.push(await diffOf(file, content));
+  }
+  if (diffs.length > 0) request.diff = diffs.join("");
+  return request;
+}
+
+/** The tool result the model sees when a reviewer rejects its call. */
+export function formatRejection(
+  request: ApprovalRequest,
+  decision: ApprovalDecision,
+): string {
+  return safeStringify(
+    {
+      status: "rejected",
+      tool: request.tool,
+      path: request.path,
+      command: request.command,
+      reviewerComment: decision.comment || "(no comment)",
+      instruction:
+        "The reviewer rejected this call. Address the comment and propose a revised change.",
+    },
+    2,
+  );
+}
@@ -0,0 +1,149 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import {
+  ArchitecturalViolation,
+  AuditFormat,
+  AuditReport,
+} from "../domain/types.js";
+import { AstValidator, findSmells } from "./Validator.js";
+import { findLayerRule } from "./LayerRules.js";
+import { listSourceFiles } from "./tools/Imports.js";
+import {
+  buildDependencyGraph,
+  findCycles,
+  formatCycle,
+} from "./DependencyGraph.js";
+
+const RULE_DESCRIPTIONS: Record<ArchitecturalViolation["rule"], string> = {
+  import: "Import from a layer this layer may not depend on.",
+  module: "Import of a module forbidden in this layer.",
+  call: "Call forbidden in this layer.",
+  global: "Reference to a global forbidden in this layer.",
+  "multiple-classes": "More than one class in a single file.",
+  "any-type": "Use of the 'any' type.",
+  cycle: "Import cycle between modules.",
+};
+
+/**
+ * Checks every source file under `dir` against the smell checks, the layer
+ * rules and for import cycles, collecting all violations instead of stopping
+ * at the first.
+ * Paths are reported relative to `root`, the directory layer globs match against.
+ */
+export async function auditWorkspace(
+  root: string,
+  dir: string = root,
+): Promise<AuditReport> {
+  const files = await listSourceFiles(path.resolve(dir));
+  const report: AuditReport = {
+    root: path.resolve(root),
+    filesAudited: files.length,
+    unlayeredFiles: [],
+    violations: [],
+  };
+
+  for (const file of files) {
+    const relative = path.relative(root, file).replace(/\\/g, "/");
+    const content = await fs.readFile(file, "utf-8");
+    report.violations.push(...findSmells(relative, content, root));
+    if (findLayerRule(relative, root)) {
+      report.violations.push(
+        ...AstValidator.findViolations(relative, content, root),
+      );
+    } else {
+      report.unlayeredFiles.push(relative);
+    }
+  }
+
+  // A cycle is reported once, at the import that starts its chain.
+  const graph = await buildDependencyGraph(root, dir);
+  for (const cycle of findCycles(graph)) {
+    const [first] = cycle.chain;
+    report.violations.push({
+      filePath: first.from,
+      layer: findLayerRule(first.from, root)?.name,
+      line: first.line,
+      column: first.column,
+      rule: "cycle",
+      message: `Import cycle: ${formatCycle(cycle)}.`,
+    });
+  }
+
+  report.violations.sort(
+    (a, b) =>
+      a.filePath.localeCompare(b.filePath) ||
+      a.line - b.line ||
+      a.column - b.column,
+  );
+  return report;
+}
+
+function toText(report: AuditReport): string {
+  const lines = report.violations.map(
+    (v) => `${v.filePath}:${v.line}:${v.column}  ${v.message}  [${v.rule}]`,
+  );
+  const files = new Set(report.violations.map((v) => v.filePath)).size;
+  lines.push(
+    report.violations.length === 0
+      ? `No violations in ${report.filesAudited} file(s).`
+      : `${report.violations.length} violation(s) in ${files} of ${report.filesAudited} file(s).`,
+  );
+  if (report.unlayeredFiles.length > 0) {
+    lines.push(
+      `${report.unlayeredFiles.length} file(s) outside every layer were checked for smells only.`,
+    );
+  }
+  return lines.join("\n");
+}
+
+// SARIF 2.1.0, the format code-scanning dashboards ingest.
+function toSarif(report: AuditReport): object {
+  const rules = Object.keys(
+    RULE_DESCRIPTIONS,
+  ) as ArchitecturalViolation["rule"][];
+  return {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "engine-audit",
+            rules: rules.map((id) => ({
+              id,
+              shortDescription: { text: RULE_DESCRIPTIONS[id] },
+              defaultConfiguration: { level: "error" },
+            })),
+          },
+        },
+        originalUriBaseIds: {
+          SRCROOT: { uri: `file://${report.root.replace(/\\/g, "/")}/` },
+        },
+        results: report.violations.map((v) => ({
+          ruleId: v.rule,
+          ruleIndex: rules.indexOf(v.rule),
+          level: "error",
+          message: { text: v.message },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: { uri: v.filePath, uriBaseId: "SRCROOT" },
+                region: { startLine: v.line, startColumn: v.column },
+              },
+            },
+          ],
+          ...(v.layer ? { properties: { layer: v.layer } } : {}),
+        })),
+      },
+    ],
+  };
+}
+
+export function formatAuditReport(
+  report: AuditReport,
+  format: AuditFormat,
+): string {
+  if (format === "json") return JSON.stringify(report, null, 2);
+  if (format === "sarif") return JSON.stringify(toSarif(report), null, 2);
+  return toText(report);
+}
@@ -1,5 +1,12 @@
 import { AIProvider } from "./ai/AIProvider.js";
 import { Engine } from "./ai/Engine.js";
+import { toRunError } from "./ai/ProviderError.js";
+import {
+  getRunBudget,
+  getModel,
+  getLlmFast,
+  getStageModels,
+} from "./Config.js";
 import { Callbacks, RunTelemetry, AutomationService } from "../domain/types.js";
 
 export class Automation implements AutomationService {
@@ -23,7 +30,16 @@ export class Automation implements AutomationService {
       runId: `run_${Date.now()}`,
       startedAt: Date.now(),
     };
-    const engine = new Engine(this.provider);
+    const engine = new Engine(this.provider, {
+      workingDir: this.workingDir,
+      stream: !!callbacks.onStream,
+      budget: getRunBudget(),
+      models: {
+        main: getModel(),
+        fast: getLlmFast(),
+        stages: getStageModels(),
+      },
+    });
 
     try {
       const response = await engine.chatLoop(messages, run, callbacks, signal);
@@ -34,7 +50,7 @@ export class Automation implements AutomationService {
       return run;
     } catch (error: any) {
       run.success = false;
-      run.error = error.message;
+      run.error = toRunError(error, signal);
       run.completedAt = Date.now();
       throw error;
     }
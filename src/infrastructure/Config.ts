@@ -3,6 +3,18 @@ import * as path from "path";
 import * as os from "os";
 import Database from "better-sqlite3";
 import { Kysely, SqliteDialect, CompiledQuery } from "kysely";
+import {
+  ApprovalMode,
+  ApprovalPolicy,
+  ProviderType,
+  RunBudget,
+} from "../domain/types.js";
+import { RetryPolicy, DEFAULT_RETRY_POLICY } from "./ai/RetryProvider.js";
+import {
+  CommandPolicy,
+  DEFAULT_COMMAND_POLICY,
+} from "./tools/CommandPolicy.js";
+import { DEFAULT_TYPE_CHECK_POLICY, TypeCheckPolicy } from "./TypeChecker.js";
 
 // --- CONFIGURATION ---
 
@@ -20,22 +32,146 @@ export function getConfig(): Record<string, any> {
   }
 }
 
+const PROVIDER_TYPES: ProviderType[] = ["openrouter", "anthropic", "google"];
+
+const PROVIDER_ENV_KEYS: Record<ProviderType, string[]> = {
+  openrouter: ["OPENROUTER_API_KEY"],
+  anthropic: ["ANTHROPIC_API_KEY"],
+  google: ["GEMINI_API_KEY", "GOOGLE_API_KEY"],
+};
+
+export function getAiProvider(): ProviderType {
+  const provider = getConfig().provider || process.env.ENGINE_PROVIDER;
+  if (!provider) return "openrouter";
+  if (!PROVIDER_TYPES.includes(provider)) {
+    throw new Error(
+      `Unknown provider '${provider}' in config. Expected one of: ${PROVIDER_TYPES.join(", ")}.`,
+    );
+  }
+  return provider;
+}
+
 export function getApiKey(): string | undefined {
-  return getConfig().apiKey || process.env.OPENROUTER_API_KEY;
+  const envKey = PROVIDER_ENV_KEYS[getAiProvider()]
+    .map((name) => process.env[name])
+    .find(Boolean);
+  return getConfig().apiKey || envKey;
 }
 
+// Model ids differ per provider: OpenRouter's carry a vendor prefix, the native APIs' do not.
+const DEFAULT_MODELS: Record<ProviderType, string> = {
+  openrouter: "google/gemini-2.0-flash-001",
+  anthropic: "claude-sonnet-4-5",
+  google: "gemini-2.0-flash-001",
+};
+
 export function getModel(): string {
-  return getConfig().model || "google/gemini-2.0-flash-001";
+  return getConfig().model || DEFAULT_MODELS[getAiProvider()];
 }
 
 export function getLlmFast(): string {
   return getConfig().modelFast || getModel();
 }
 
+/** Per-stage model overrides keyed by loop stage, e.g. `{ "apply_change": "anthropic/claude-sonnet-4" }`. */
+export function getStageModels(): Record<string, string> {
+  return getConfig().stageModels || {};
+}
+
+export function getCassette():
+  { mode: "record" | "replay"; path: string } | undefined {
+  const configured = getConfig().cassette;
+  const cassettePath = process.env.ENGINE_CASSETTE || configured?.path;
+  if (!cassettePath) return undefined;
+  const mode = process.env.ENGINE_CASSETTE_MODE || configured?.mode || "replay";
+  if (mode !== "record" && mode !== "replay") {
+    throw new Error(
+      `Unknown cassette mode '${mode}'. Expected 'record' or 'replay'.`,
+    );
+  }
+  return { mode, path: path.resolve(cassettePath) };
+}
+
+export function getRetryPolicy(): RetryPolicy {
+  return { ...DEFAULT_RETRY_POLICY, ...getConfig().retry };
+}
+
+const DEFAULT_RUN_BUDGET: RunBudget = {
+  maxTurns: 50,
+  maxConsecutiveBreaches: 5,
+  maxDurationMs: 15 * 60 * 1000,
+};
+
+export function getRunBudget(): RunBudget {
+  return { ...DEFAULT_RUN_BUDGET, ...getConfig().budget };
+}
+
+export function getSubagentConcurrency(): number {
+  return Math.max(1, getConfig().subagentConcurrency || 2);
+}
+
+/** Whether subagent streams get their own git worktree; outside a repository they always share the tree. */
+export function getWorktreeIsolation(): boolean {
+  return getConfig().worktrees !== false;
+}
+
+/** `"supervised": true` confirms every mutating tool; `"approval"` refines that per tool, path glob and layer. */
+export function getApprovalPolicy(): ApprovalPolicy {
+  const config = getConfig();
+  const approval = config.approval || {};
+  const base: ApprovalMode = config.supervised ? "confirm" : "auto";
+  return {
+    tools: { apply_change: base, run_command: base, ...approval.tools },
+    paths: { ...approval.paths },
+    layers: { ...approval.layers },
+  };
+}
+
+/** Whether writes that would close a new import cycle are refused; `"rejectImportCycles": false` turns it off. */
+export function getRejectImportCycles(): boolean {
+  return getConfig().rejectImportCycles !== false;
+}
+
+export function getTypeCheckPolicy(): TypeCheckPolicy {
+  return { ...DEFAULT_TYPE_CHECK_POLICY, ...getConfig().typeCheck };
+}
+
+export function getCommandPolicy(): CommandPolicy {
+  return { ...DEFAULT_COMMAND_POLICY, ...getConfig().commands };
+}
+
+export function getStreaming(): boolean {
+  return getConfig().stream !== false;
+}
+
 export function getTokensPerChar(): number {
-  return 0.35;
+  return getConfig().tokensPerChar || 0.35;
 }
 
+export interface ModelPrice {
+  /** USD per million prompt tokens. */
+  prompt: number;
+  /** USD per million completion tokens. */
+  completion: number;
+  /** USD per million cached prompt tokens; defaults to the prompt price. */
+  cached?: number;
+}
+
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  "google/gemini-2.0-flash-001": {
+    prompt: 0.1,
+    completion: 0.4,
+    cached: 0.025,
+  },
+  "gemini-2.0-flash-001": { prompt: 0.1, completion: 0.4, cached: 0.025 },
+  "claude-sonnet-4-5": { prompt: 3, completion: 15, cached: 0.3 },
+};
+
+export function getModelPrices(): Record<string, ModelPrice> {
+  return { ...DEFAULT_PRICES, ...getConfig().prices };
+}
+
+/** Names (matched per path segment) or workspace-relative globs that file tools neither read, list nor write. */
 export function getExcludedFiles(): string[] {
   return [
     "node_modules",
@@ -47,6 +183,9 @@ export function getExcludedFiles(): string[] {
     ".vscode",
     ".idea",
     ".DS_Store",
+    ".env",
+    ".env.*",
+    ...(getConfig().excludedFiles || []),
   ];
 }
 
@@ -84,6 +223,46 @@ export interface Schema {
     status: "pending" | "running" | "completed" | "failed";
     result: string | null;
   };
+  run_usage: {
+    runId: string;
+    sessionId: string;
+    startedAt: number;
+    completedAt: number | null;
+    success: number | boolean;
+    promptTokens: number;
+    completionTokens: number;
+    cachedTokens: number;
+    costUsd: number;
+    estimated: number | boolean;
+    /** The whole RunTelemetry as JSON; the columns above are what reports aggregate. */
+    telemetry: string | null;
+  };
+  file_changes: {
+    id?: number;
+    runId: string;
+    toolCallId: string;
+    path: string;
+    before: string | null;
+    after: string | null;
+    changedAt: number;
+    revertedAt: number | null;
+  };
+  command_audit: {
+    id?: number;
+    runId: string | null;
+    toolCallId: string | null;
+    streamId: string | null;
+    command: string;
+    cwd: string;
+    decision: "allowed" | "denied";
+    reason: string | null;
+    exitCode: number | null;
+    timedOut: number | boolean;
+    aborted: number | boolean;
+    outputBytes: number;
+    durationMs: number;
+    startedAt: number;
+  };
 }
 
 let _db: Kysely<Schema> | null = null;
@@ -121,6 +300,20 @@ export async function getDb(): Promise<Kysely<Schema>> {
   await execute(
     `CREATE TABLE IF NOT EXISTS agent_tasks (id TEXT PRIMARY KEY, streamId TEXT, description TEXT, status TEXT, result TEXT)`,
   );
+  await execute(
+    `CREATE TABLE IF NOT EXISTS run_usage (runId TEXT PRIMARY KEY, sessionId TEXT, startedAt BIGINT, completedAt BIGINT, success BOOLEAN, promptTokens INTEGER, completionTokens INTEGER, cachedTokens INTEGER, costUsd REAL, estimated BOOLEAN, telemetry TEXT)`,
+  );
+  // Databases created before runs kept their full telemetry lack the column.
+  const runColumns = await execute(`PRAGMA table_info(run_usage)`);
+  if (!runColumns.rows.some((c: any) => c.name === "telemetry")) {
+    await execute(`ALTER TABLE run_usage ADD COLUMN telemetry TEXT`);
+  }
+  await execute(
+    `CREATE TABLE IF NOT EXISTS file_changes (id INTEGER PRIMARY KEY AUTOINCREMENT, runId TEXT, toolCallId TEXT, path TEXT, before TEXT, after TEXT, changedAt BIGINT, revertedAt BIGINT)`,
+  );
+  await execute(
+    `CREATE TABLE IF NOT EXISTS command_audit (id INTEGER PRIMARY KEY AUTOINCREMENT, runId TEXT, toolCallId TEXT, streamId TEXT, command TEXT, cwd TEXT, decision TEXT, reason TEXT, exitCode INTEGER, timedOut BOOLEAN, aborted BOOLEAN, outputBytes INTEGER, durationMs INTEGER, startedAt BIGINT)`,
+  );
 
   return _db;
 }
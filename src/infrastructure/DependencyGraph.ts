@@ -0,0 +1,328 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { GraphFormat } from "../domain/types.js";
+import { AstValidator } from "./Validator.js";
+import { findLayerRule } from "./LayerRules.js";
+import {
+  SOURCE_EXTENSIONS,
+  listSourceFiles,
+  resolveRelativeImport,
+} from "./tools/Imports.js";
+
+export interface ImportEdge {
+  /** Workspace-relative paths of the importing and the imported file. */
+  from: string;
+  to: string;
+  specifier: string;
+  line: number;
+  column: number;
+}
+
+export interface DependencyGraph {
+  root: string;
+  nodes: string[];
+  edges: ImportEdge[];
+}
+
+export interface ImportCycle {
+  /** Files of the strongly connected component, sorted. */
+  files: string[];
+  /** One import chain through the component, ending where it starts. */
+  chain: ImportEdge[];
+}
+
+export interface LayerGraph {
+  nodes: string[];
+  edges: { from: string; to: string; count: number }[];
+}
+
+function toRelative(root: string, file: string): string {
+  return path.relative(root, file).replace(/\\/g, "/");
+}
+
+// Edges of one file; relative imports of files not on disk yet are matched against the known files.
+function edgesOf(
+  root: string,
+  file: string,
+  content: string,
+  known: Set<string>,
+): ImportEdge[] {
+  const from = toRelative(root, file);
+  return AstValidator.findImports(from, content, root).flatMap((imported) => {
+    const target =
+      imported.target ?? resolveRelativeImport(file, imported.specifier, known);
+    if (!target || !known.has(target)) return [];
+    const { specifier, line, column } = imported;
+    return [{ from, to: toRelative(root, target), specifier, line, column }];
+  });
+}
+
+/** Module graph of every source file under `dir`, with paths relative to `root`. */
+export async function buildDependencyGraph(
+  root: string,
+  dir: string = root,
+): Promise<DependencyGraph> {
+  const files = await listSourceFiles(path.resolve(dir));
+  const known = new Set(files);
+  const edges: ImportEdge[] = [];
+  for (const file of files) {
+    edges.push(...edgesOf(root, file, await fs.readFile(file, "utf-8"), known));
+  }
+  return { root, nodes: files.map((f) => toRelative(root, f)).sort(), edges };
+}
+
+const cachedGraphs = new Map<
+  string,
+  { graph: DependencyGraph; stamps: Map<string, string> }
+>();
+
+async function stampOf(file: string): Promise<string> {
+  const stat = await fs.stat(file);
+  return `${stat.mtimeMs}:${stat.size}`;
+}
+
+/**
+ * The module graph of the whole workspace, kept between calls: only files
+ * whose modification time or size changed are parsed again. A new file
+ * rebuilds the graph, since imports elsewhere may now resolve to it.
+ */
+export async function getDependencyGraph(
+  root: string,
+): Promise<DependencyGraph> {
+  const key = path.resolve(root);
+  const files = await listSourceFiles(key);
+  const stamps = new Map<string, string>();
+  for (const file of files) stamps.set(file, await stampOf(file));
+
+  const cached = cachedGraphs.get(key);
+  if (!cached || files.some((f) => !cached.stamps.has(f))) {
+    const graph = await buildDependencyGraph(key);
+    cachedGraphs.set(key, { graph, stamps });
+    return graph;
+  }
+  const changes = new Map<string, string | null>();
+  for (const file of cached.stamps.keys()) {
+    if (!stamps.has(file)) changes.set(file, null);
+  }
+  for (const [file, stamp] of stamps) {
+    if (cached.stamps.get(file) !== stamp) {
+      changes.set(file, await fs.readFile(file, "utf-8"));
+    }
+  }
+  if (changes.size > 0) cached.graph = withFileContents(cached.graph, changes);
+  cached.stamps = stamps;
+  return cached.graph;
+}
+
+/** Drops the cached graph of a root that goes away, such as a removed worktree. */
+export function forgetDependencyGraph(root: string): void {
+  cachedGraphs.delete(path.resolve(root));
+}
+
+/** The graph with several files replaced, added or, for null content, removed. */
+export function withFileContents(
+  graph: DependencyGraph,
+  changes: Map<string, string | null>,
+): DependencyGraph {
+  const changed = new Map(
+    Array.from(changes)
+      .filter(([file]) => SOURCE_EXTENSIONS.includes(path.extname(file)))
+      .map(([file, content]) => [
+        toRelative(graph.root, path.resolve(graph.root, file)),
+        content,
+      ]),
+  );
+  const nodes = new Set(graph.nodes);
+  for (const [file, content] of changed) {
+    if (content === null) nodes.delete(file);
+    else nodes.add(file);
+  }
+  const known = new Set(Array.from(nodes, (n) => path.resolve(graph.root, n)));
+  const edges = graph.edges.filter(
+    (e) => !changed.has(e.from) && nodes.has(e.to),
+  );
+  for (const [file, content] of changed) {
+    if (content === null) continue;
+    edges.push(
+      ...edgesOf(graph.root, path.resolve(graph.root, file), content, known),
+    );
+  }
+  return { root: graph.root, nodes: Array.from(nodes).sort(), edges };
+}
+
+/** Files importing `filePath`, directly or through other files, nearest first. */
+export function findDependents(
+  graph: DependencyGraph,
+  filePath: string,
+  limit = Infinity,
+): string[] {
+  const start = toRelative(graph.root, path.resolve(graph.root, filePath));
+  const seen = new Set([start]);
+  const dependents: string[] = [];
+  const queue = [start];
+  while (queue.length > 0 && dependents.length < limit) {
+    const node = queue.shift();
+    for (const edge of graph.edges) {
+      if (edge.to !== node || seen.has(edge.from)) continue;
+      seen.add(edge.from);
+      dependents.push(edge.from);
+      queue.push(edge.from);
+    }
+  }
+  return dependents.slice(0, limit);
+}
+
+// Tarjan's algorithm; components of one file count only when the file imports itself.
+function stronglyConnected(graph: DependencyGraph): string[][] {
+  const successors = new Map<string, string[]>(graph.nodes.map((n) => [n, []]));
+  for (const edge of graph.edges) successors.get(edge.from)?.push(edge.to);
+
+  const index = new Map<string, number>();
+  const lowlink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+
+  const connect = (node: string) => {
+    index.set(node, index.size);
+    lowlink.set(node, index.get(node));
+    stack.push(node);
+    onStack.add(node);
+    for (const next of successors.get(node) || []) {
+      if (!index.has(next)) {
+        connect(next);
+        lowlink.set(node, Math.min(lowlink.get(node), lowlink.get(next)));
+      } else if (onStack.has(next)) {
+        lowlink.set(node, Math.min(lowlink.get(node), index.get(next)));
+      }
+    }
+    if (lowlink.get(node) !== index.get(node)) return;
+    const component: string[] = [];
+    let member: string;
+    do {
+      member = stack.pop();
+      onStack.delete(member);
+      component.push(member);
+    } while (member !== node);
+    const selfImport = successors.get(node).includes(node);
+    if (component.length > 1 || selfImport) components.push(component.sort());
+  };
+
+  for (const node of graph.nodes) if (!index.has(node)) connect(node);
+  return components;
+}
+
+// Shortest import chain from the component's first file back to itself.
+function chainThrough(graph: DependencyGraph, files: string[]): ImportEdge[] {
+  const members = new Set(files);
+  const start = files[0];
+  const via = new Map<string, ImportEdge>();
+  const queue = [start];
+  while (queue.length > 0) {
+    const node = queue.shift();
+    for (const edge of graph.edges) {
+      if (edge.from !== node || !members.has(edge.to)) continue;
+      if (edge.to === start) {
+        const chain = [edge];
+        for (let at = node; at !== start; at = via.get(at).from) {
+          chain.unshift(via.get(at));
+        }
+        return chain;
+      }
+      if (!via.has(edge.to)) {
+        via.set(edge.to, edge);
+        queue.push(edge.to);
+      }
+    }
+  }
+  return [];
+}
+
+export function findCycles(graph: DependencyGraph): ImportCycle[] {
+  return stronglyConnected(graph).map((files) => ({
+    files,
+    chain: chainThrough(graph, files),
+  }));
+}
+
+/** Cycles in `after` whose set of files is not a cycle in `before`, including grown ones. */
+export function findNewCycles(
+  before: DependencyGraph,
+  after: DependencyGraph,
+): ImportCycle[] {
+  const existing = new Set(
+    stronglyConnected(before).map((files) => files.join("\n")),
+  );
+  return findCycles(after).filter((c) => !existing.has(c.files.join("\n")));
+}
+
+export function formatCycle(cycle: ImportCycle): string {
+  return [
+    cycle.chain[0]?.from,
+    ...cycle.chain.map((e) => `${e.to} (line ${e.line}: '${e.specifier}')`),
+  ].join(" -> ");
+}
+
+/** Files grouped by layer; files outside every layer are left out. */
+export function collapseToLayers(graph: DependencyGraph): LayerGraph {
+  const layerOf = (file: string) => findLayerRule(file, graph.root)?.name;
+  const counts = new Map<string, { from: string; to: string; count: number }>();
+  for (const edge of graph.edges) {
+    const from = layerOf(edge.from);
+    const to = layerOf(edge.to);
+    if (!from || !to || from === to) continue;
+    const key = `${from}\n${to}`;
+    const entry = counts.get(key) || { from, to, count: 0 };
+    entry.count++;
+    counts.set(key, entry);
+  }
+  const nodes = new Set(graph.nodes.map(layerOf).filter(Boolean));
+  return {
+    nodes: Array.from(nodes).sort(),
+    edges: Array.from(counts.values()),
+  };
+}
+
+function quote(id: string): string {
+  return JSON.stringify(id);
+}
+
+/** DOT or JSON; file graphs mark cycle edges, layer graphs label edges with their import count. */
+export function formatGraph(
+  graph: DependencyGraph,
+  format: GraphFormat,
+  layers = false,
+): string {
+  if (layers) {
+    const layerGraph = collapseToLayers(graph);
+    if (format === "json") return JSON.stringify(layerGraph, null, 2);
+    return [
+      "digraph layers {",
+      "  node [shape=box];",
+      ...layerGraph.nodes.map((n) => `  ${quote(n)};`),
+      ...layerGraph.edges.map(
+        (e) => `  ${quote(e.from)} -> ${quote(e.to)} [label="${e.count}"];`,
+      ),
+      "}",
+    ].join("\n");
+  }
+
+  const cycles = findCycles(graph);
+  if (format === "json") {
+    return JSON.stringify({ ...graph, cycles }, null, 2);
+  }
+  const cyclic = new Set(
+    cycles.flatMap((c) => c.chain.map((e) => `${e.from}\n${e.to}`)),
+  );
+  return [
+    "digraph dependencies {",
+    "  rankdir=LR;",
+    "  node [shape=box];",
+    ...graph.nodes.map((n) => `  ${quote(n)};`),
+    ...graph.edges.map(
+      (e) =>
+        `  ${quote(e.from)} -> ${quote(e.to)}${cyclic.has(`${e.from}\n${e.to}`) ? " [color=red]" : ""};`,
+    ),
+    "}",
+  ].join("\n");
+}
@@ -0,0 +1,165 @@
+import * as fs from "fs/promises";
+import { getDb } from "./Config.js";
+import { deleteFile, writeFile } from "../plumbing/Plumbing.js";
+
+export interface FileChange {
+  runId: string;
+  toolCallId: string;
+  /** Absolute path of the changed file. */
+  path: string;
+  /** Content before the change; null when the change created the file. */
+  before: string | null;
+  /** Content after the change; null when the change deleted the file. */
+  after: string | null;
+}
+
+export interface JournaledRun {
+  runId: string;
+  files: string[];
+  changedAt: number;
+}
+
+export interface RevertResult {
+  runId: string;
+  restored: string[];
+}
+
+async function readCurrent(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, "utf-8");
+  } catch (e: any) {
+    if (e.code === "ENOENT") return null;
+    throw e;
+  }
+}
+
+/**
+ * Writes a file and journals its before- and after-image under the run and
+ * tool call that produced it, so the run can be reverted later.
+ */
+export async function writeJournaled(
+  filePath: string,
+  content: string,
+  change: { runId: string; toolCallId: string },
+): Promise<void> {
+  const before = await readCurrent(filePath);
+  await writeFile(filePath, content);
+  await recordFileChange({ ...change, path: filePath, before, after: content });
+}
+
+/** Deletes a file, journaling its before-image so a revert recreates it. */
+export async function removeJournaled(
+  filePath: string,
+  change: { runId: string; toolCallId: string },
+): Promise<void> {
+  const before = await readCurrent(filePath);
+  await deleteFile(filePath);
+  await recordFileChange({ ...change, path: filePath, before, after: null });
+}
+
+/**
+ * Runs `apply`, which changes the given files by other means than the writers
+ * above, e.g. a patch, and journals the before- and after-image of every file
+ * it changed.
+ */
+export async function journalChanges(
+  filePaths: string[],
+  apply: () => Promise<void>,
+  change: { runId: string; toolCallId: string },
+): Promise<void> {
+  const befores = new Map<string, string | null>();
+  for (const filePath of filePaths) {
+    befores.set(filePath, await readCurrent(filePath));
+  }
+  await apply();
+  for (const [filePath, before] of befores) {
+    const after = await readCurrent(filePath);
+    if (after !== before) {
+      await recordFileChange({ ...change, path: filePath, before, after });
+    }
+  }
+}
+
+export async function recordFileChange(change: FileChange): Promise<void> {
+  const db = await getDb();
+  await db
+    .insertInto("file_changes")
+    .values({ ...change, changedAt: Date.now(), revertedAt: null })
+    .execute();
+}
+
+/** Runs with file changes that have not been reverted, newest first. */
+export async function getJournaledRuns(): Promise<JournaledRun[]> {
+  const db = await getDb();
+  const rows = await db
+    .selectFrom("file_changes")
+    .select(["runId", "path", "changedAt"])
+    .where("revertedAt", "is", null)
+    .orderBy("id", "desc")
+    .execute();
+
+  const runs = new Map<string, JournaledRun>();
+  for (const row of rows) {
+    const run = runs.get(row.runId) || {
+      runId: row.runId,
+      files: [],
+      changedAt: row.changedAt,
+    };
+    if (!run.files.includes(row.path)) run.files.push(row.path);
+    runs.set(row.runId, run);
+  }
+  return Array.from(runs.values());
+}
+
+/**
+ * Restores every file a run changed to its state before the run. Refuses,
+ * without touching anything, when a file no longer matches what the run left
+ * behind, i.e. it was changed outside the engine or by a later run since.
+ */
+export async function revertRun(runId: string): Promise<RevertResult> {
+  const db = await getDb();
+  const changes = await db
+    .selectFrom("file_changes")
+    .selectAll()
+    .where("runId", "=", runId)
+    .where("revertedAt", "is", null)
+    .orderBy("id", "asc")
+    .execute();
+  if (changes.length === 0) return { runId, restored: [] };
+
+  // A run may touch a file several times: restore the first before-image, verify against the last after-image.
+  const files = new Map<
+    string,
+    { before: string | null; after: string | null }
+  >();
+  for (const change of changes) {
+    const entry = files.get(change.path);
+    if (entry) entry.after = change.after;
+    else files.set(change.path, { before: change.before, after: change.after });
+  }
+
+  const drifted: string[] = [];
+  for (const [filePath, { after }] of files) {
+    if ((await readCurrent(filePath)) !== after) drifted.push(filePath);
+  }
+  if (drifted.length > 0) {
+    throw new Error(
+      `Refusing to revert run '${runId}': changed since the run: ${drifted.join(", ")}`,
+    );
+  }
+
+  for (const [filePath, { before, after }] of files) {
+    // Created and deleted again within the run: nothing to restore.
+    if (before === null && after === null) continue;
+    if (before === null) await deleteFile(filePath);
+    else await writeFile(filePath, before);
+  }
+  await db
+    .updateTable("file_changes")
+    .set({ revertedAt: Date.now() })
+    .where("runId", "=", runId)
+    .where("revertedAt", "is", null)
+    .execute();
+
+  return { runId, restored: Array.from(files.keys()) };
+}
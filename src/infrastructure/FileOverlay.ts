@@ -0,0 +1,87 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { createUnifiedDiff } from "../plumbing/Plumbing.js";
+
+/**
+ * In-memory layer over the workspace for dry runs. Writes land here instead
+ * of on disk, reads and listings see them, and the accumulated changes are
+ * rendered as one patch against the files on disk.
+ */
+export class FileOverlay {
+  // Absolute path -> overlaid content; null marks a file removed in the overlay.
+  private readonly files = new Map<string, string | null>();
+  private readonly plans: unknown[] = [];
+
+  public write(filePath: string, content: string): void {
+    this.files.set(path.resolve(filePath), content);
+  }
+
+  public remove(filePath: string): void {
+    this.files.set(path.resolve(filePath), null);
+  }
+
+  public async read(filePath: string): Promise<string> {
+    const resolved = path.resolve(filePath);
+    if (!this.files.has(resolved)) return await fs.readFile(resolved, "utf-8");
+    const content = this.files.get(resolved);
+    if (content === null) throw new Error(`File not found: ${filePath}`);
+    return content;
+  }
+
+  /** Lists a directory in the `listFiles` format, merging overlaid files over the disk entries. */
+  public async list(dirPath: string): Promise<string> {
+    const dir = path.resolve(dirPath);
+    const entries = new Map<string, boolean>();
+    try {
+      for (const e of await fs.readdir(dir, { withFileTypes: true })) {
+        entries.set(e.name, e.isDirectory());
+      }
+    } catch (e: any) {
+      if (e.code !== "ENOENT") throw e;
+    }
+
+    for (const [filePath, content] of this.files) {
+      const relative = path.relative(dir, filePath);
+      if (!relative || relative.startsWith("..") || path.isAbsolute(relative))
+        continue;
+      const [name, ...rest] = relative.split(path.sep);
+      if (rest.length > 0) entries.set(name, true);
+      else if (content === null) entries.delete(name);
+      else entries.set(name, false);
+    }
+
+    return (
+      Array.from(entries)
+        .map(([name, isDir]) => `${isDir ? "DIR " : "FILE"} ${name}`)
+        .join("\n") || "Empty."
+    );
+  }
+
+  public recordPlan(plan: unknown): void {
+    this.plans.push(plan);
+  }
+
+  public getPlans(): unknown[] {
+    return [...this.plans];
+  }
+
+  /** Overlaid files by absolute path; null marks a removal. */
+  public getChanges(): Map<string, string | null> {
+    return new Map(this.files);
+  }
+
+  public getChangedFiles(): string[] {
+    return Array.from(this.files.keys()).sort();
+  }
+
+  /** Combined unified diff of every overlaid file against disk, with paths relative to baseDir. */
+  public async toPatch(baseDir: string): Promise<string> {
+    const diffs: string[] = [];
+    for (const filePath of this.getChangedFiles()) {
+      const before = await fs.readFile(filePath, "utf-8").catch(() => null);
+      const relative = path.relative(baseDir, filePath).replace(/\\/g, "/");
+      diffs.push(createUnifiedDiff(relative, before, this.files.get(filePath)));
+    }
+    return diffs.join("");
+  }
+}
@@ -0,0 +1,218 @@
+import * as fs from "fs";
+import * as path from "path";
+import { matchGlob } from "../plumbing/Plumbing.js";
+
+export interface LayerRule {
+  name: string;
+  /** Workspace-relative globs of the files in this layer; the first layer with a match owns a file. */
+  paths: string[];
+  /** Layers this layer may import from besides itself; omitted means any. */
+  allowedImports?: string[];
+  /** Names or dotted prefixes that may not be referenced, e.g. "window" or "process.env". */
+  forbiddenGlobals: string[];
+  /** Callees that may not be called; `*` matches any rest, e.g. "fs.*". */
+  forbiddenCalls: string[];
+  /** Module specifiers that may not be imported, including their subpaths and `node:` forms. */
+  forbiddenModules: string[];
+  /** Scheduling priority: proposals in higher layers apply first. */
+  priority: number;
+  description?: string;
+}
+
+export interface LayerRuleSet {
+  layers: LayerRule[];
+}
+
+export const LAYER_RULES_FILE = path.join(".engine", "layers.json");
+
+export const DEFAULT_LAYER_RULES: LayerRuleSet = {
+  layers: [
+    {
+      name: "domain",
+      paths: ["src/domain/**"],
+      allowedImports: ["plumbing"],
+      forbiddenGlobals: ["process"],
+      forbiddenCalls: ["fetch", "fs.*", "child_process.*"],
+      forbiddenModules: ["fs", "child_process", "http", "https", "net"],
+      priority: 100,
+      description: "Pure business logic, models, rules and types.",
+    },
+    {
+      name: "infrastructure",
+      paths: ["src/infrastructure/**"],
+      allowedImports: ["domain", "plumbing"],
+      forbiddenGlobals: ["document", "window"],
+      forbiddenCalls: [],
+      forbiddenModules: [],
+      priority: 50,
+      description: "Adapters, providers, persistence and external services.",
+    },
+    {
+      name: "ui",
+      paths: ["src/ui/**"],
+      allowedImports: ["domain", "plumbing"],
+      forbiddenGlobals: ["process"],
+      forbiddenCalls: [],
+      forbiddenModules: [],
+      priority: 10,
+      description: "Rendering, input/output and visual adapters.",
+    },
+    {
+      name: "plumbing",
+      paths: ["src/plumbing/**"],
+      forbiddenGlobals: [],
+      forbiddenCalls: [],
+      forbiddenModules: [],
+      priority: 5,
+      description: "Utilities, helpers and I/O support.",
+    },
+  ],
+};
+
+function stringList(value: unknown, field: string, file: string): string[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some((v) => typeof v !== "string")) {
+    throw new Error(
+      `Invalid layer rules in ${file}: ${field} must be an array of strings.`,
+    );
+  }
+  return value;
+}
+
+/** Validates a parsed rules file; priorities default to declaration order, first highest. */
+export function parseLayerRules(raw: any, file: string): LayerRuleSet {
+  if (!Array.isArray(raw?.layers) || raw.layers.length === 0) {
+    throw new Error(
+      `Invalid layer rules in ${file}: expected a non-empty "layers" array.`,
+    );
+  }
+  const layers: LayerRule[] = raw.layers.map((layer: any, i: number) => {
+    if (typeof layer?.name !== "string" || !layer.name) {
+      throw new Error(
+        `Invalid layer rules in ${file}: layer ${i + 1} has no name.`,
+      );
+    }
+    const paths = stringList(layer.paths, `${layer.name}.paths`, file);
+    if (paths.length === 0) {
+      throw new Error(
+        `Invalid layer rules in ${file}: layer '${layer.name}' has no paths.`,
+      );
+    }
+    return {
+      name: layer.name,
+      paths,
+      allowedImports:
+        layer.allowedImports === undefined
+          ? undefined
+          : stringList(
+              layer.allowedImports,
+              `${layer.name}.allowedImports`,
+              file,
+            ),
+      forbiddenGlobals: stringList(
+        layer.forbiddenGlobals,
+        `${layer.name}.forbiddenGlobals`,
+        file,
+      ),
+      forbiddenCalls: stringList(
+        layer.forbiddenCalls,
+        `${layer.name}.forbiddenCalls`,
+        file,
+      ),
+      forbiddenModules: stringList(
+        layer.forbiddenModules,
+        `${layer.name}.forbiddenModules`,
+        file,
+      ),
+      priority:
+        typeof layer.priority === "number"
+          ? layer.priority
+          : (raw.layers.length - i) * 10,
+      description:
+        typeof layer.description === "string" ? layer.description : undefined,
+    };
+  });
+
+  const names = new Set(layers.map((l) => l.name));
+  if (names.size !== layers.length) {
+    throw new Error(
+      `Invalid layer rules in ${file}: layer names must be unique.`,
+    );
+  }
+  for (const layer of layers) {
+    const unknown = (layer.allowedImports || []).filter(
+      (name) => !names.has(name),
+    );
+    if (unknown.length > 0) {
+      throw new Error(
+        `Invalid layer rules in ${file}: layer '${layer.name}' allows imports from unknown layer(s) ${unknown.join(", ")}.`,
+      );
+    }
+  }
+  return { layers };
+}
+
+// Per rules file, checked against its modification time so edits apply without a restart.
+const cached = new Map<string, { stamp: string; rules: LayerRuleSet }>();
+
+/** The project's rules from `.engine/layers.json` under the workspace root, or the defaults. */
+export function getLayerRules(root: string = process.cwd()): LayerRuleSet {
+  const file = path.resolve(root, LAYER_RULES_FILE);
+  let stamp = "missing";
+  try {
+    const stat = fs.statSync(file);
+    stamp = `${stat.mtimeMs}:${stat.size}`;
+  } catch {
+    // No rules file: the defaults apply.
+  }
+  const hit = cached.get(file);
+  if (hit?.stamp === stamp) return hit.rules;
+  const rules =
+    stamp === "missing"
+      ? DEFAULT_LAYER_RULES
+      : parseLayerRules(JSON.parse(fs.readFileSync(file, "utf-8")), file);
+  cached.set(file, { stamp, rules });
+  return rules;
+}
+
+/** The layer owning a workspace-relative path, or undefined when no layer claims it. */
+export function findLayerRule(
+  filePath: string,
+  root: string = process.cwd(),
+): LayerRule | undefined {
+  const normalized = filePath.replace(/\\/g, "/").replace(/^\.\//, "");
+  return getLayerRules(root).layers.find((layer) =>
+    layer.paths.some((glob) => matchGlob(normalized, glob)),
+  );
+}
+
+export function getLayerPriority(
+  name: string,
+  root: string = process.cwd(),
+): number {
+  return getLayerRules(root).layers.find((l) => l.name === name)?.priority ?? 0;
+}
+
+/** The rule as plain-language constraints for the prompt. */
+export function describeLayerRule(rule: LayerRule): string[] {
+  const constraints: string[] = [];
+  if (rule.description) constraints.push(rule.description);
+  if (rule.allowedImports) {
+    const allowed = [rule.name, ...rule.allowedImports];
+    constraints.push(`May only import from layers: ${allowed.join(", ")}.`);
+  }
+  if (rule.forbiddenModules.length > 0) {
+    constraints.push(
+      `Must not import modules: ${rule.forbiddenModules.join(", ")}.`,
+    );
+  }
+  if (rule.forbiddenCalls.length > 0) {
+    constraints.push(`Must not call: ${rule.forbiddenCalls.join(", ")}.`);
+  }
+  if (rule.forbiddenGlobals.length > 0) {
+    constraints.push(
+      `Must not reference: ${rule.forbiddenGlobals.join(", ")}.`,
+    );
+  }
+  return constraints;
+}
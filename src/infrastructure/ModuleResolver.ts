@@ -0,0 +1,119 @@
+import * as ts from "typescript";
+import * as path from "path";
+import { isBuiltin } from "module";
+
+export interface ResolvedImport {
+  /** Absolute path of the file the specifier resolves to. */
+  fileName: string;
+  /** Resolved into a package (node_modules) rather than the project's own sources. */
+  external: boolean;
+}
+
+let cached: { root: string; options: ts.CompilerOptions } | null = null;
+
+/** The nearest tsconfig.json at or above root, parsed; undefined without one. */
+export function readProjectConfig(
+  root: string = process.cwd(),
+): ts.ParsedCommandLine | undefined {
+  const configPath = ts.findConfigFile(
+    root,
+    ts.sys.fileExists,
+    "tsconfig.json",
+  );
+  if (!configPath) return undefined;
+  const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+  if (error) {
+    throw new Error(
+      `Invalid ${configPath}: ${ts.flattenDiagnosticMessageText(error.messageText, "\n")}`,
+    );
+  }
+  return ts.parseJsonConfigFileContent(
+    config,
+    ts.sys,
+    path.dirname(configPath),
+  );
+}
+
+/** Compiler options of the nearest tsconfig.json at or above root; TypeScript's defaults without one. */
+export function getCompilerOptions(
+  root: string = process.cwd(),
+): ts.CompilerOptions {
+  if (cached?.root === root) return cached.options;
+  const options = readProjectConfig(root)?.options ?? {
+    moduleResolution: ts.ModuleResolutionKind.Node10,
+    allowJs: true,
+  };
+  cached = { root, options };
+  return options;
+}
+
+let resolutionCache: { root: string; cache: ts.ModuleResolutionCache } | null =
+  null;
+
+// Shared by every lookup under one root, so package.json and directory probes happen once.
+function getResolutionCache(root: string): ts.ModuleResolutionCache {
+  if (resolutionCache?.root !== root) {
+    resolutionCache = {
+      root,
+      cache: ts.createModuleResolutionCache(
+        root,
+        (f) => (ts.sys.useCaseSensitiveFileNames ? f : f.toLowerCase()),
+        getCompilerOptions(root),
+      ),
+    };
+  }
+  return resolutionCache.cache;
+}
+
+function resolveWith(
+  specifier: string,
+  containing: string,
+  options: ts.CompilerOptions,
+  cache?: ts.ModuleResolutionCache,
+): ts.ResolvedModuleFull | undefined {
+  return (
+    ts.resolveModuleName(specifier, containing, options, ts.sys, cache)
+      .resolvedModule ??
+    // Node16/NodeNext resolve ESM imports differently, e.g. without extension probing.
+    ts.resolveModuleName(
+      specifier,
+      containing,
+      options,
+      ts.sys,
+      cache,
+      undefined,
+      ts.ModuleKind.ESNext,
+    ).resolvedModule
+  );
+}
+
+/**
+ * Resolves a module specifier the way the compiler would, honoring `paths`
+ * aliases, `baseUrl` and package exports from the project's tsconfig. Only
+ * files that exist on disk resolve; undefined otherwise, and for Node's
+ * built-in modules.
+ */
+export function resolveImport(
+  specifier: string,
+  containingFile: string,
+  root: string = process.cwd(),
+): ResolvedImport | undefined {
+  if (isBuiltin(specifier)) return undefined;
+  const options = getCompilerOptions(root);
+  const containing = path.resolve(root, containingFile);
+  let resolved = resolveWith(
+    specifier,
+    containing,
+    options,
+    getResolutionCache(root),
+  );
+  // The cache does not notice files created or deleted since it was filled.
+  if (!resolved || !ts.sys.fileExists(resolved.resolvedFileName)) {
+    resolved = resolveWith(specifier, containing, options);
+  }
+  if (!resolved) return undefined;
+  return {
+    fileName: path.resolve(resolved.resolvedFileName),
+    external: !!resolved.isExternalLibraryImport,
+  };
+}
@@ -1,6 +1,20 @@
+import {
+  RunTelemetry,
+  SessionMetadata,
+  SessionSnapshot,
+} from "../domain/types.js";
+
 export function renderMessage(msg: any): string {
   if (!msg) return "";
   if (typeof msg === "string") return msg;
+  if (msg.role === "tool")
+    return `[Tool Result: ${msg.name || msg.tool_call_id}]\n${msg.content}`;
+  if (msg.tool_calls?.length) {
+    const calls = msg.tool_calls.map(
+      (c: any) => `[Calling Tool: ${c.function.name}]\n${c.function.arguments}`,
+    );
+    return [msg.content, ...calls].filter(Boolean).join("\n");
+  }
   if (typeof msg.content === "string") return msg.content;
   if (Array.isArray(msg.content)) {
     return msg.content
@@ -17,6 +31,133 @@ export function renderMessage(msg: any): string {
   return JSON.stringify(msg.content);
 }
 
+const JSONL_VERSION = 1;
+
+function fence(text: string, lang = ""): string {
+  // Widen the fence past any backtick run in the body so transcripts of code stay intact.
+  const longest = Math.max(
+    2,
+    ...(text.match(/`+/g) || []).map((run) => run.length),
+  );
+  const ticks = "`".repeat(longest + 1);
+  return `${ticks}${lang}\n${text}\n${ticks}`;
+}
+
+function formatArguments(raw: unknown): string {
+  if (typeof raw !== "string") return JSON.stringify(raw, null, 2);
+  try {
+    return JSON.stringify(JSON.parse(raw), null, 2);
+  } catch {
+    return raw;
+  }
+}
+
+export function renderTranscript(snapshot: SessionSnapshot): string {
+  const { metadata, messages, runs } = snapshot;
+  const lines: string[] = [
+    `# ${metadata.title || metadata.id}`,
+    "",
+    `- Session: \`${metadata.id}\``,
+    `- Last modified: ${new Date(metadata.lastModified).toISOString()}`,
+    `- Messages: ${messages.length}`,
+    "",
+    "## Conversation",
+  ];
+
+  for (const msg of messages) {
+    lines.push("");
+    if (msg.role === "tool") {
+      lines.push(`### Tool result: \`${msg.name || msg.tool_call_id}\``);
+      if (msg.tool_call_id) lines.push(`_call \`${msg.tool_call_id}\`_`);
+      lines.push("", fence(String(msg.content ?? "")));
+      continue;
+    }
+    lines.push(`### ${msg.role}`);
+    const text = typeof msg.content === "string" ? msg.content : "";
+    if (text) lines.push("", text);
+    else if (msg.content != null) lines.push("", renderMessage(msg));
+    for (const call of msg.tool_calls || []) {
+      lines.push(
+        "",
+        `**Tool call** \`${call.function.name}\` (\`${call.id}\`)`,
+        "",
+        fence(formatArguments(call.function.arguments), "json"),
+      );
+    }
+  }
+
+  if (runs.length > 0) {
+    lines.push(
+      "",
+      "## Runs",
+      "",
+      "| Run | Started | Duration | Result | Prompt tokens | Output tokens | Cost (USD) |",
+      "| --- | --- | --- | --- | ---: | ---: | ---: |",
+    );
+    for (const run of runs) {
+      const duration = run.completedAt
+        ? `${((run.completedAt - run.startedAt) / 1000).toFixed(1)}s`
+        : "-";
+      const usage = run.usage;
+      lines.push(
+        `| \`${run.runId}\` | ${new Date(run.startedAt).toISOString()} | ${duration} | ${run.success ? "success" : "failed"} | ${usage?.promptTokens ?? "-"} | ${usage?.completionTokens ?? "-"} | ${usage ? usage.costUsd.toFixed(4) : "-"}${usage?.estimated ? " (est.)" : ""} |`,
+      );
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/** One JSON record per line: a `session` header, then `message` and `run` records in order. */
+export function serializeSessionJsonl(snapshot: SessionSnapshot): string {
+  const records = [
+    { type: "session", version: JSONL_VERSION, ...snapshot.metadata },
+    ...snapshot.messages.map((message) => ({ type: "message", message })),
+    ...snapshot.runs.map((run) => ({ type: "run", run })),
+  ];
+  return records.map((r) => JSON.stringify(r)).join("\n") + "\n";
+}
+
+export function parseSessionJsonl(text: string): SessionSnapshot {
+  let metadata: SessionMetadata | undefined;
+  const messages: any[] = [];
+  const runs: RunTelemetry[] = [];
+
+  text.split("\n").forEach((line, index) => {
+    if (!line.trim()) return;
+    let record: any;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      throw new Error(`Invalid JSONL at line ${index + 1}.`);
+    }
+    if (record.type === "session") {
+      if (record.version !== JSONL_VERSION) {
+        throw new Error(
+          `Unsupported session export version: ${record.version}`,
+        );
+      }
+      metadata = {
+        id: record.id,
+        title: record.title,
+        lastModified: record.lastModified,
+        isPinned: !!record.isPinned,
+      };
+    } else if (record.type === "message") {
+      messages.push(record.message);
+    } else if (record.type === "run") {
+      runs.push(record.run);
+    } else {
+      throw new Error(
+        `Unknown record type '${record.type}' at line ${index + 1}.`,
+      );
+    }
+  });
+
+  if (!metadata) throw new Error("Session export has no session header.");
+  return { metadata, messages, runs };
+}
+
 export async function processSessionEnd(
   sessionId: string,
   messages: any[],
@@ -34,9 +175,21 @@ export async function processSessionEnd(
     const { getDb } = await import("./Config.js");
     const db = await getDb();
 
+    // Only derive a title while the session still has the placeholder, so /rename sticks.
+    const existing = await db
+      .selectFrom("session_metadata")
+      .select("title")
+      .where("id", "=", sessionId)
+      .executeTakeFirst();
+    const keepTitle = existing?.title && existing.title !== "New Session";
+
     await db
       .updateTable("session_metadata")
-      .set({ title, lastModified: Date.now() })
+      .set(
+        keepTitle
+          ? { lastModified: Date.now() }
+          : { title, lastModified: Date.now() },
+      )
       .where("id", "=", sessionId)
       .execute();
   } catch (e) {
@@ -0,0 +1,323 @@
+import * as ts from "typescript";
+import * as fs from "fs";
+import * as path from "path";
+import { safeStringify } from "../plumbing/Plumbing.js";
+import { getCompilerOptions, readProjectConfig } from "./ModuleResolver.js";
+import { SOURCE_EXTENSIONS } from "./tools/Imports.js";
+
+export interface TypeCheckPolicy {
+  /** Type-check every file write and return the diagnostics with its result. */
+  enabled: boolean;
+  /** Refuse writes that introduce type errors the files did not have before. */
+  rejectNewErrors: boolean;
+  /** Dependents checked along with the changed file, nearest importers first. */
+  maxDependents: number;
+  /** Diagnostics listed in a report; its counts always cover all of them. */
+  maxDiagnostics: number;
+}
+
+export const DEFAULT_TYPE_CHECK_POLICY: TypeCheckPolicy = {
+  enabled: true,
+  rejectNewErrors: false,
+  maxDependents: 50,
+  maxDiagnostics: 50,
+};
+
+export interface TypeDiagnostic {
+  /** Workspace-relative path. */
+  file: string;
+  /** 1-based position, as `tsc` prints it. */
+  line: number;
+  column: number;
+  code: number;
+  category: "error" | "warning" | "suggestion" | "message";
+  message: string;
+}
+
+export interface TypeCheckReport {
+  /** The changed files first, then their dependents; workspace-relative. */
+  checkedFiles: string[];
+  errors: number;
+  warnings: number;
+  /** Errors the change introduces; matched by file, code and message since lines shift. */
+  newErrors: TypeDiagnostic[];
+  /** Errors present before the change and gone after it. */
+  fixedErrors: number;
+  diagnostics: TypeDiagnostic[];
+}
+
+function toRelative(root: string, file: string): string {
+  return path.relative(root, file).replace(/\\/g, "/");
+}
+
+function toDiagnostic(root: string, diagnostic: ts.Diagnostic): TypeDiagnostic {
+  const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(
+    diagnostic.start ?? 0,
+  );
+  return {
+    file: toRelative(root, diagnostic.file.fileName),
+    line: line + 1,
+    column: character + 1,
+    code: diagnostic.code,
+    category: ts.DiagnosticCategory[
+      diagnostic.category
+    ].toLowerCase() as TypeDiagnostic["category"],
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"),
+  };
+}
+
+const diagnosticKey = (d: TypeDiagnostic) =>
+  `${d.file}\n${d.code}\n${d.message}`;
+
+/**
+ * A language service over the workspace's tsconfig project, kept warm between
+ * checks so only files that changed are parsed and bound again. Versions come
+ * from modification times, so writes made by any tool are picked up. A file
+ * written with the content it was last checked with keeps that check's
+ * version, so the next check starts from the program, and the diagnostics,
+ * the previous one left behind.
+ */
+export class WorkspaceTypeChecker {
+  private service: ts.LanguageService;
+  private fileNames: string[] = [];
+  // Content that replaces the disk's; null hides a file, as a dry run's removal does.
+  private overrides = new Map<
+    string,
+    { content: string | null; version: number }
+  >();
+  // Content last checked as an override, per file, and the version it was checked under.
+  private checked = new Map<
+    string,
+    { content: string | null; version: number }
+  >();
+  private overrideVersion = 0;
+
+  constructor(private root: string) {
+    const host: ts.LanguageServiceHost = {
+      getCompilationSettings: () => getCompilerOptions(root),
+      getScriptFileNames: () => {
+        const names = new Set(this.fileNames);
+        for (const [file, { content }] of this.overrides) {
+          if (content === null) names.delete(file);
+          else names.add(file);
+        }
+        return Array.from(names);
+      },
+      getScriptVersion: (file) => this.versionOf(file),
+      getScriptSnapshot: (file) => {
+        const content = this.readFile(file);
+        return content === undefined
+          ? undefined
+          : ts.ScriptSnapshot.fromString(content);
+      },
+      getCurrentDirectory: () => root,
+      getDefaultLibFileName: (options) => ts.getDefaultLibFilePath(options),
+      fileExists: (file) => {
+        const override = this.overrides.get(path.resolve(file));
+        return override ? override.content !== null : ts.sys.fileExists(file);
+      },
+      readFile: (file) => this.readFile(file),
+      readDirectory: ts.sys.readDirectory,
+      directoryExists: ts.sys.directoryExists,
+      getDirectories: ts.sys.getDirectories,
+    };
+    this.service = ts.createLanguageService(host, ts.createDocumentRegistry());
+  }
+
+  public dispose(): void {
+    this.service.dispose();
+  }
+
+  private versionOf(file: string): string {
+    const override = this.overrides.get(path.resolve(file));
+    if (override) return `override:${override.version}`;
+    const checked = this.checked.get(path.resolve(file));
+    if (checked) {
+      if (checked.content === (ts.sys.readFile(file) ?? null)) {
+        return `override:${checked.version}`;
+      }
+      this.checked.delete(path.resolve(file));
+    }
+    try {
+      const stat = fs.statSync(file);
+      return `${stat.mtimeMs}:${stat.size}`;
+    } catch {
+      return "missing";
+    }
+  }
+
+  private readFile(file: string): string | undefined {
+    const override = this.overrides.get(path.resolve(file));
+    if (override) return override.content ?? undefined;
+    return ts.sys.readFile(file);
+  }
+
+  // Re-read on every check so files created since the last one join the program.
+  private refreshFileNames() {
+    this.fileNames = readProjectConfig(this.root)?.fileNames ?? [];
+  }
+
+  /** Syntactic and semantic diagnostics of the given files; files outside the project have none. */
+  public diagnose(files: string[]): TypeDiagnostic[] {
+    this.refreshFileNames();
+    return this.collect(files);
+  }
+
+  private collect(files: string[]): TypeDiagnostic[] {
+    const program = this.service.getProgram();
+    return files.flatMap((file) => {
+      const source = program.getSourceFile(path.resolve(this.root, file));
+      if (!source) return [];
+      return [
+        ...program.getSyntacticDiagnostics(source),
+        ...program.getSemanticDiagnostics(source),
+      ].map((d) => toDiagnostic(this.root, d));
+    });
+  }
+
+  // Content the service has seen before keeps its version, so it reuses the tree and the program.
+  private setOverride(file: string, content: string | null) {
+    const seen = this.overrides.get(file) ?? this.checked.get(file);
+    const override =
+      seen?.content === content
+        ? seen
+        : { content, version: ++this.overrideVersion };
+    this.overrides.set(file, override);
+    this.checked.set(file, override);
+  }
+
+  /**
+   * Diagnostics of the changed files, with their new content in place of what
+   * is on disk, and of their dependents, compared with the same files before
+   * the change. A null content removes a file. `pending` holds changes not on
+   * disk yet, such as a dry run's overlay, which both sides see. Nothing is
+   * written.
+   */
+  public checkChanges(
+    changes: Map<string, string | null>,
+    dependents: string[],
+    maxDiagnostics = DEFAULT_TYPE_CHECK_POLICY.maxDiagnostics,
+    pending = new Map<string, string | null>(),
+  ): TypeCheckReport {
+    const resolved = new Map(
+      Array.from(changes, ([file, content]) => [
+        path.resolve(this.root, file),
+        content,
+      ]),
+    );
+    const written = Array.from(resolved)
+      .filter(([, content]) => content !== null)
+      .map(([file]) => file);
+    const removed = new Set(
+      Array.from(resolved)
+        .filter(([, content]) => content === null)
+        .map(([file]) => toRelative(this.root, file)),
+    );
+    const files = [
+      ...written,
+      ...dependents
+        .map((d) => path.resolve(this.root, d))
+        .filter((d) => !resolved.has(d)),
+    ];
+    let before: TypeDiagnostic[];
+    let after: TypeDiagnostic[];
+    try {
+      for (const [file, pendingContent] of pending) {
+        if (!SOURCE_EXTENSIONS.includes(path.extname(file))) continue;
+        this.setOverride(path.resolve(this.root, file), pendingContent);
+      }
+      this.refreshFileNames();
+      // Removed files are checked before the change so their errors count as fixed, not lost.
+      // When the disk still matches the last check, this reuses its program and costs nothing.
+      before = this.collect([
+        ...files,
+        ...Array.from(removed, (f) => path.resolve(this.root, f)),
+      ]);
+      for (const [file, content] of resolved) this.setOverride(file, content);
+      after = this.collect(files);
+    } finally {
+      this.overrides.clear();
+    }
+
+    const errors = (list: TypeDiagnostic[]) =>
+      list.filter((d) => d.category === "error");
+    let { added: newErrors, missing } = subtract(
+      errors(after),
+      errors(before),
+      diagnosticKey,
+    );
+    // A moved file keeps its old errors under the new path.
+    const moved = subtract(
+      newErrors,
+      missing.filter((d) => removed.has(d.file)),
+      (d) => `${d.code}\n${d.message}`,
+    );
+    newErrors = moved.added;
+    missing = missing.filter(
+      (d) => !removed.has(d.file) || moved.missing.includes(d),
+    );
+
+    return {
+      checkedFiles: files.map((f) => toRelative(this.root, f)),
+      errors: errors(after).length,
+      warnings: after.filter((d) => d.category === "warning").length,
+      newErrors,
+      fixedErrors: missing.length,
+      diagnostics: after.slice(0, maxDiagnostics),
+    };
+  }
+}
+
+// Multiset difference both ways: entries of `a` without a partner in `b`, and of `b` without one in `a`.
+function subtract(
+  a: TypeDiagnostic[],
+  b: TypeDiagnostic[],
+  key: (d: TypeDiagnostic) => string,
+): { added: TypeDiagnostic[]; missing: TypeDiagnostic[] } {
+  const unmatched = new Map<string, TypeDiagnostic[]>();
+  for (const d of b)
+    unmatched.set(key(d), [...(unmatched.get(key(d)) || []), d]);
+  const added = a.filter((d) => !unmatched.get(key(d))?.shift());
+  return { added, missing: Array.from(unmatched.values()).flat() };
+}
+
+const checkers = new Map<string, WorkspaceTypeChecker>();
+
+/** The warm checker of a workspace root, created on first use. */
+export function getTypeChecker(root: string): WorkspaceTypeChecker {
+  const key = path.resolve(root);
+  if (!checkers.has(key)) checkers.set(key, new WorkspaceTypeChecker(key));
+  return checkers.get(key);
+}
+
+/** Frees the checker of a root that goes away, such as a removed worktree. */
+export function disposeTypeChecker(root: string): void {
+  const key = path.resolve(root);
+  checkers.get(key)?.dispose();
+  checkers.delete(key);
+}
+
+export function formatTypeDiagnostic(d: TypeDiagnostic): string {
+  return `${d.file}(${d.line},${d.column}): ${d.category} TS${d.code}: ${d.message}`;
+}
+
+/** The tool result of a checked write, as JSON the model can act on. */
+export function formatTypeCheckResult(
+  result: string,
+  report: TypeCheckReport,
+): string {
+  return safeStringify(
+    {
+      status: "applied",
+      result,
+      typeCheck: report,
+      ...(report.newErrors.length > 0
+        ? {
+            instruction:
+              "The change introduced type errors. Fix them before moving on.",
+          }
+        : {}),
+    },
+    2,
+  );
+}
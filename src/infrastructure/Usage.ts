@@ -0,0 +1,70 @@
+import { RunTelemetry, TokenUsage } from "../domain/types.js";
+import { ProviderUsage } from "./ai/AIProvider.js";
+import { getModelPrices, getTokensPerChar } from "./Config.js";
+import { safeStringify } from "../plumbing/Plumbing.js";
+
+export function emptyUsage(): TokenUsage {
+  return {
+    promptTokens: 0,
+    completionTokens: 0,
+    cachedTokens: 0,
+    costUsd: 0,
+    estimated: false,
+  };
+}
+
+// Char-based fallback for providers (or proxies) that omit the usage block.
+export function estimateUsage(request: any, response: any): ProviderUsage {
+  const ratio = getTokensPerChar();
+  const promptChars =
+    (request.system || "").length +
+    safeStringify(request.messages || []).length +
+    safeStringify(request.tools || []).length;
+  const completionChars =
+    (response.content || "").length +
+    safeStringify(response.tool_calls || []).length;
+  return {
+    promptTokens: Math.ceil(promptChars * ratio),
+    completionTokens: Math.ceil(completionChars * ratio),
+    cachedTokens: 0,
+  };
+}
+
+export function priceUsage(model: string, usage: ProviderUsage): number {
+  const prices = getModelPrices();
+  const price =
+    prices[model] || prices[model.slice(model.indexOf("/") + 1)] || undefined;
+  if (!price) return 0;
+  const uncached = Math.max(0, usage.promptTokens - usage.cachedTokens);
+  return (
+    (uncached * price.prompt +
+      usage.cachedTokens * (price.cached ?? price.prompt) +
+      usage.completionTokens * price.completion) /
+    1_000_000
+  );
+}
+
+/** Adds one provider call to the run totals and returns that call's priced usage. */
+export function accountUsage(
+  run: RunTelemetry,
+  model: string,
+  request: any,
+  response: any,
+): TokenUsage {
+  const raw: ProviderUsage = response.usage || estimateUsage(request, response);
+  const call: TokenUsage = {
+    ...raw,
+    costUsd: priceUsage(model, raw),
+    estimated: !response.usage,
+  };
+
+  const total = run.usage || emptyUsage();
+  run.usage = {
+    promptTokens: total.promptTokens + call.promptTokens,
+    completionTokens: total.completionTokens + call.completionTokens,
+    cachedTokens: total.cachedTokens + call.cachedTokens,
+    costUsd: total.costUsd + call.costUsd,
+    estimated: total.estimated || call.estimated,
+  };
+  return call;
+}
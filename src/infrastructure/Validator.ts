@@ -1,25 +1,121 @@
 import * as ts from "typescript";
-import * as fs from "fs";
 import * as path from "path";
 import { dbPool } from "./DbPool.js";
+import { findLayerRule, LayerRule } from "./LayerRules.js";
+import { resolveImport } from "./ModuleResolver.js";
+import { ArchitecturalViolation } from "../domain/types.js";
+import { matchGlob } from "../plumbing/Plumbing.js";
+
+export type Layer = string;
+
+export interface ModuleImport {
+  specifier: string;
+  target?: string;
+  /** 1-based position of the specifier. */
+  line: number;
+  column: number;
+}
 
-export type Layer = "domain" | "infrastructure" | "plumbing" | "ui";
+/** Paths are workspace-relative; `root` is the workspace whose layer rules apply. */
+export function getLayerRule(path: string, root: string = process.cwd()): LayerRule {
+  const rule = findLayerRule(path, root);
+  if (!rule) {
+    throw new Error(
+      `Invalid layer path: ${path}. Every file must reside in a valid layer directory.`,
+    );
+  }
+  return rule;
+}
 
-export function getLayer(path: string): Layer {
-  const normalized = path.replace(/\\/g, "/");
-  if (normalized.startsWith("src/domain/")) return "domain";
-  if (normalized.startsWith("src/infrastructure/")) return "infrastructure";
-  if (normalized.startsWith("src/plumbing/")) return "plumbing";
-  if (normalized.startsWith("src/ui/")) return "ui";
-  throw new Error(
-    `Invalid layer path: ${path}. Every file must reside in a valid layer directory.`,
-  );
+export function getLayer(path: string, root: string = process.cwd()): Layer {
+  return getLayerRule(path, root).name;
+}
+
+// "fs" also covers "fs/promises" and "node:fs".
+function isForbiddenModule(specifier: string, patterns: string[]): boolean {
+  const bare = specifier.replace(/^node:/, "");
+  return patterns.some(p => matchGlob(bare, p) || matchGlob(bare, `${p}/**`) || matchGlob(specifier, p));
+}
+
+function matchesName(text: string, pattern: string): boolean {
+  const source = pattern.split("*").map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+  return new RegExp(`^${source}$`).test(text);
+}
+
+// Layer of the file an import resolves to through the project's tsconfig, so aliases are checked like relative paths.
+function layerOfImport(filePath: string, specifier: string, root: string): LayerRule | undefined {
+  const resolved = resolveImport(specifier, path.resolve(root, filePath), root);
+  if (resolved) {
+    return resolved.external ? undefined : findLayerRule(path.relative(root, resolved.fileName), root);
+  }
+  if (!specifier.startsWith(".")) return undefined;
+
+  // Targets not on disk yet, e.g. created later in the same run: try the specifier as its .ts source.
+  const target = path.posix.normalize(path.posix.join(path.posix.dirname(filePath.replace(/\\/g, "/")), specifier));
+  const stem = target.replace(/\.(m|c)?jsx?$/, "");
+  const candidates = [target, `${stem}.ts`, `${stem}.tsx`, `${target}.ts`, `${target}/index.ts`];
+  for (const candidate of candidates) {
+    const rule = findLayerRule(candidate, root);
+    if (rule) return rule;
+  }
+  return undefined;
+}
+
+// Specifier of an import, export-from, import-equals, require() or import() node.
+function moduleSpecifierOf(node: ts.Node): ts.StringLiteralLike | undefined {
+  if ((ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) && node.moduleSpecifier && ts.isStringLiteralLike(node.moduleSpecifier)) {
+    return node.moduleSpecifier;
+  }
+  if (ts.isImportEqualsDeclaration(node) && ts.isExternalModuleReference(node.moduleReference) && ts.isStringLiteralLike(node.moduleReference.expression)) {
+    return node.moduleReference.expression;
+  }
+  if (ts.isCallExpression(node) && node.arguments.length === 1 && ts.isStringLiteralLike(node.arguments[0])) {
+    const isRequire = ts.isIdentifier(node.expression) && node.expression.text === "require";
+    if (isRequire || node.expression.kind === ts.SyntaxKind.ImportKeyword) return node.arguments[0];
+  }
+  return undefined;
 }
 
-// AST-based Detection
+// An identifier that refers to a binding, as opposed to a declared name or a property name.
+function isReference(node: ts.Identifier): boolean {
+  const parent = node.parent;
+  if ((parent as any).name === node || (parent as any).propertyName === node) return false;
+  if (ts.isQualifiedName(parent) && parent.right === node) return false;
+  return !ts.isTypeReferenceNode(parent);
+}
+
+// AST-based Detection, driven by the project's layer rules
 export class AstValidator {
-  public static validate(filePath: string, content: string): void {
-    const layer = getLayer(filePath);
+  public static validate(filePath: string, content: string, root: string = process.cwd()): void {
+    const [violation] = this.findViolations(filePath, content, root);
+    if (violation) throw new Error(`Architectural Violation in ${filePath}: ${violation.message}`);
+  }
+
+  /** Every import of a file with the absolute path it resolves to; unset for packages and unresolvable targets. */
+  public static findImports(filePath: string, content: string, root: string = process.cwd()): ModuleImport[] {
+    const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true);
+    const imports: ModuleImport[] = [];
+    const visit = (node: ts.Node) => {
+      const specifier = moduleSpecifierOf(node);
+      if (specifier) {
+        const resolved = resolveImport(specifier.text, path.resolve(root, filePath), root);
+        const { line, character } = sourceFile.getLineAndCharacterOfPosition(specifier.getStart(sourceFile));
+        imports.push({
+          specifier: specifier.text,
+          target: resolved && !resolved.external ? resolved.fileName : undefined,
+          line: line + 1,
+          column: character + 1,
+        });
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+    return imports;
+  }
+
+  /** Every rule violation in a file, in source order. */
+  public static findViolations(filePath: string, content: string, root: string = process.cwd()): ArchitecturalViolation[] {
+    const rule = getLayerRule(filePath, root);
     const sourceFile = ts.createSourceFile(
       filePath,
       content,
@@ -27,65 +123,56 @@ export class AstValidator {
       true
     );
 
-    this.visit(sourceFile, layer, filePath);
+    const violations: ArchitecturalViolation[] = [];
+    const report = (node: ts.Node, kind: ArchitecturalViolation["rule"], detail: string) => {
+      const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+      violations.push({
+        filePath,
+        layer: rule.name,
+        line: line + 1,
+        column: character + 1,
+        rule: kind,
+        message: detail,
+      });
+    };
+    this.visit(sourceFile, rule, root, report);
+    return violations;
   }
 
-  private static visit(node: ts.Node, layer: Layer, filePath: string) {
-    // Forbidden calls detection
-    if (ts.isCallExpression(node)) {
-      const expression = node.expression;
-      const text = expression.getText();
-
-      if (layer === "domain") {
-        if (text.includes("fetch") || text.includes("fs.") || text.includes("child_process")) {
-          throw new Error(`Architectural Violation in ${filePath}: Forbidden call '${text}' in Domain layer.`);
-        }
+  private static visit(node: ts.Node, rule: LayerRule, root: string, report: (node: ts.Node, kind: ArchitecturalViolation["rule"], detail: string) => void) {
+    // Import dependency detection
+    const specifier = moduleSpecifierOf(node);
+    if (specifier) {
+      const moduleName = specifier.text;
+      const target = layerOfImport(node.getSourceFile().fileName, moduleName, root);
+      if (target && target.name !== rule.name && rule.allowedImports && !rule.allowedImports.includes(target.name)) {
+        report(specifier, "import", `Layer '${rule.name}' cannot import from layer '${target.name}' ('${moduleName}').`);
       }
-
-      if (layer === "infrastructure") {
-        if (text.includes("document.") || text.includes("window.")) {
-          throw new Error(`Architectural Violation in ${filePath}: Browser API call '${text}' in Infrastructure layer.`);
-        }
+      if (!moduleName.startsWith(".") && isForbiddenModule(moduleName, rule.forbiddenModules)) {
+        report(specifier, "module", `Module '${moduleName}' is forbidden in ${rule.name} layer.`);
       }
     }
 
-    // Property access detection (e.g. process.env)
-    if (ts.isPropertyAccessExpression(node)) {
-      const text = node.getText();
-      if ((layer === "domain" || layer === "ui") && text.startsWith("process.")) {
-        throw new Error(`Architectural Violation in ${filePath}: Environment access '${text}' is forbidden in ${layer} layer.`);
-      }
+    // Forbidden calls detection
+    if (ts.isCallExpression(node) && node.expression.kind !== ts.SyntaxKind.ImportKeyword) {
+      const text = node.expression.getText().replace(/\?\./g, ".").replace(/\s+/g, "");
+      const forbidden = rule.forbiddenCalls.find(p => matchesName(text, p));
+      if (forbidden) report(node, "call", `Forbidden call '${text}' in ${rule.name} layer.`);
     }
 
-    // Import dependency detection
-    if (ts.isImportDeclaration(node)) {
-      const moduleSpecifier = node.moduleSpecifier.getText().replace(/['"]/g, "");
-      if (moduleSpecifier.startsWith(".")) {
-        const absoluteImportPath = path.normalize(path.join(path.dirname(filePath), moduleSpecifier));
-        this.validateDependency(filePath, layer, absoluteImportPath);
+    // Forbidden globals: a bare name, or a dotted prefix like process.env
+    if (ts.isIdentifier(node) && isReference(node)) {
+      if (rule.forbiddenGlobals.includes(node.text)) {
+        report(node, "global", `Global '${node.text}' is forbidden in ${rule.name} layer.`);
       }
     }
-
-    ts.forEachChild(node, (child) => this.visit(child, layer, filePath));
-  }
-
-  private static validateDependency(filePath: string, layer: Layer, importPath: string) {
-    // Basic DAG Enforcement
-    if (layer === "domain") {
-      if (importPath.includes("/infrastructure/") || importPath.includes("/ui/")) {
-        throw new Error(`Architectural Violation in ${filePath}: Domain cannot import from Infrastructure or UI.`);
-      }
-    }
-    if (layer === "infrastructure") {
-      if (importPath.includes("/ui/")) {
-        throw new Error(`Architectural Violation in ${filePath}: Infrastructure cannot import from UI.`);
-      }
-    }
-    if (layer === "ui") {
-      if (importPath.includes("/infrastructure/")) {
-        throw new Error(`Architectural Violation in ${filePath}: UI cannot directly import Infrastructure (use services).`);
-      }
+    if (ts.isPropertyAccessExpression(node) && !ts.isPropertyAccessExpression(node.parent)) {
+      const text = node.getText().replace(/\?\./g, ".").replace(/\s+/g, "");
+      const forbidden = rule.forbiddenGlobals.find(g => g.includes(".") && (text === g || text.startsWith(`${g}.`)));
+      if (forbidden) report(node, "global", `Global '${forbidden}' is forbidden in ${rule.name} layer.`);
     }
+
+    ts.forEachChild(node, (child) => this.visit(child, rule, root, report));
   }
 }
 
@@ -102,29 +189,39 @@ export async function validateHistoricalEntropy(filePath: string): Promise<void>
   }
 }
 
-export function validateSmells(path: string, content: string): void {
-  const classCount = (content.match(/class /g) || []).length;
-  if (classCount > 1) {
-    throw new Error(`Architectural Smell in ${path}: Multiple classes in a single file.`);
+function positionOf(content: string, index: number): { line: number; column: number } {
+  const before = content.slice(0, index).split("\n");
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+/** Every smell in a file; a second class is reported where it starts. */
+export function findSmells(path: string, content: string, root: string = process.cwd()): ArchitecturalViolation[] {
+  const layer = findLayerRule(path, root)?.name;
+  const smells: ArchitecturalViolation[] = [];
+  const classes = [...content.matchAll(/class /g)];
+  if (classes.length > 1) {
+    smells.push({ filePath: path, layer, ...positionOf(content, classes[1].index), rule: "multiple-classes", message: "Multiple classes in a single file." });
+  }
+  for (const match of content.matchAll(/: any|<any>/g)) {
+    smells.push({ filePath: path, layer, ...positionOf(content, match.index), rule: "any-type", message: "Forbidden 'any' type detected." });
   }
+  return smells;
+}
 
-  if (content.includes(": any") || content.includes("<any>")) {
-    throw new Error(`Architectural Smell in ${path}: Forbidden 'any' type detected.`);
+export function validateSmells(path: string, content: string): void {
+  const [smell] = findSmells(path, content);
+  if (smell) {
+    throw new Error(`Architectural Smell in ${path}: ${smell.message}`);
   }
 }
 
-export async function validateLayering(path: string, content: string): Promise<void> {
+export async function validateLayering(path: string, content: string, root: string = process.cwd()): Promise<void> {
   // 1. Smell Check
   validateSmells(path, content);
 
   // 2. AST Validation
-  AstValidator.validate(path, content);
+  AstValidator.validate(path, content, root);
 
   // 3. Historical Check
   await validateHistoricalEntropy(path);
 }
-
-export const DOMAIN_CONSTRAINTS = []; // Legacy - transitioned to AstValidator
-export const INFRASTRUCTURE_CONSTRAINTS = [];
-export const UI_CONSTRAINTS = [];
-export const PLUMBING_CONSTRAINTS = [];
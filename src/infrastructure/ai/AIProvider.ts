@@ -1,103 +1,173 @@
-import { safeStringify } from "../../plumbing/Plumbing.js";
+import { safeStringify, readSseEvents } from "../../plumbing/Plumbing.js";
+import { ProviderError } from "./ProviderError.js";
+import { ProviderType } from "../../domain/types.js";
+import { createAnthropicProvider } from "./AnthropicProvider.js";
+import { createGoogleProvider } from "./GoogleProvider.js";
+
+export type StreamEvent =
+  | { type: "content_delta"; text: string }
+  | {
+      type: "tool_call_delta";
+      index: number;
+      id: string;
+      name: string;
+      argumentsDelta: string;
+    };
+
+export interface ProviderUsage {
+  promptTokens: number;
+  completionTokens: number;
+  cachedTokens: number;
+}
 
 export interface AIProvider {
-  createMessage(params: any): Promise<any>;
+  createMessage(params: any, signal?: AbortSignal): Promise<any>;
   createMessageStream(
     params: any,
-    onUpdate: (event: any) => void,
+    onUpdate: (event: StreamEvent) => void,
     signal?: AbortSignal,
   ): Promise<any>;
 }
 
 export function createAIProvider(
-  providerType: string,
+  providerType: ProviderType,
   apiKey: string,
 ): AIProvider {
-  const baseUrl = "https://openrouter.ai/api/v1";
+  switch (providerType) {
+    case "anthropic":
+      return createAnthropicProvider(apiKey);
+    case "google":
+      return createGoogleProvider(apiKey);
+    case "openrouter":
+      return createOpenRouterProvider(apiKey);
+    default:
+      throw new Error(`Unsupported AI provider: ${providerType}`);
+  }
+}
 
+function toUsage(usage: any): ProviderUsage | undefined {
+  if (!usage) return undefined;
   return {
-    async createMessage(params: any): Promise<any> {
-      const messages = [...(params.messages || [])];
-      if (params.system && !messages.some((m: any) => m.role === "system")) {
-        messages.unshift({ role: "system", content: params.system });
-      }
+    promptTokens: usage.prompt_tokens || 0,
+    completionTokens: usage.completion_tokens || 0,
+    cachedTokens: usage.prompt_tokens_details?.cached_tokens || 0,
+  };
+}
+
+export function createOpenRouterProvider(apiKey: string): AIProvider {
+  const baseUrl = "https://openrouter.ai/api/v1";
+  const headers = {
+    Authorization: `Bearer ${apiKey}`,
+    "HTTP-Referer": "https://github.com/CardSorting/engine",
+    "Content-Type": "application/json",
+  };
 
+  const withSystem = (params: any) => {
+    const messages = [...(params.messages || [])];
+    if (params.system && !messages.some((m: any) => m.role === "system")) {
+      messages.unshift({ role: "system", content: params.system });
+    }
+    return messages;
+  };
+
+  return {
+    async createMessage(params: any, signal?: AbortSignal): Promise<any> {
       const response = await fetch(`${baseUrl}/chat/completions`, {
         method: "POST",
-        headers: {
-          Authorization: `Bearer ${apiKey}`,
-          "HTTP-Referer": "https://github.com/CardSorting/engine",
-          "Content-Type": "application/json",
-        },
+        headers,
         body: safeStringify({
           model: params.model,
-          messages,
+          messages: withSystem(params),
           tools: params.tools,
           tool_choice: params.tools ? "auto" : undefined,
           response_format: params.response_format,
         }),
+        signal,
       });
 
-      if (!response.ok)
-        throw new Error(`AI Provider error: ${response.status}`);
+      if (!response.ok) throw await ProviderError.fromResponse(response);
       const data = (await response.json()) as any;
-      const choice = data.choices[0].message;
+      if (data.error) throw ProviderError.fromBody(data.error);
+      const choice = data.choices?.[0]?.message;
+      if (!choice) throw ProviderError.malformed("response has no choices");
+
+      const usage = toUsage(data.usage);
 
       if (choice.tool_calls) {
         return {
           content: choice.content || "",
           tool_calls: choice.tool_calls,
+          usage,
         };
       }
-      return { content: choice.content || "" };
+      return { content: choice.content || "", usage };
     },
 
     async createMessageStream(
       params: any,
-      onUpdate: (e: any) => void,
+      onUpdate: (e: StreamEvent) => void,
       signal?: AbortSignal,
     ): Promise<any> {
       const response = await fetch(`${baseUrl}/chat/completions`, {
         method: "POST",
-        headers: {
-          Authorization: `Bearer ${apiKey}`,
-          "Content-Type": "application/json",
-        },
+        headers,
         body: safeStringify({
           model: params.model,
-          messages: params.messages,
+          messages: withSystem(params),
           tools: params.tools,
+          tool_choice: params.tools ? "auto" : undefined,
           stream: true,
+          stream_options: { include_usage: true },
         }),
         signal,
       });
 
-      if (!response.ok) throw new Error(`Stream error: ${response.status}`);
-      const reader = response.body!.getReader();
-      const decoder = new TextDecoder();
+      if (!response.ok) throw await ProviderError.fromResponse(response);
       let contentBuffer = "";
-      try {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-          const chunk = decoder.decode(value);
-          const lines = chunk.split("\n");
-          for (const line of lines) {
-            if (line.startsWith("data: ") && line !== "data: [DONE]") {
-              const json = JSON.parse(line.slice(6));
-              const delta = json.choices[0].delta;
-              if (delta.content) {
-                contentBuffer += delta.content;
-                onUpdate({ type: "content_delta", text: delta.content });
-              }
-            }
-          }
+      let usage: ProviderUsage | undefined;
+      const toolCalls: any[] = [];
+
+      for await (const event of readSseEvents(response.body!)) {
+        if (event.data === "[DONE]") break;
+        const json = JSON.parse(event.data);
+        if (json.error) throw ProviderError.fromBody(json.error);
+        if (json.usage) usage = toUsage(json.usage);
+        const delta = json.choices?.[0]?.delta;
+        if (!delta) continue;
+
+        if (delta.content) {
+          contentBuffer += delta.content;
+          onUpdate({ type: "content_delta", text: delta.content });
+        }
+
+        // Tool calls arrive as fragments keyed by index; only the first carries id and name.
+        for (const fragment of delta.tool_calls || []) {
+          const index = fragment.index ?? toolCalls.length;
+          const call = (toolCalls[index] ||= {
+            id: "",
+            type: "function",
+            function: { name: "", arguments: "" },
+          });
+          if (fragment.id) call.id = fragment.id;
+          if (fragment.function?.name)
+            call.function.name += fragment.function.name;
+          if (fragment.function?.arguments)
+            call.function.arguments += fragment.function.arguments;
+          onUpdate({
+            type: "tool_call_delta",
+            index,
+            id: call.id,
+            name: call.function.name,
+            argumentsDelta: fragment.function?.arguments || "",
+          });
         }
-      } finally {
-        reader.releaseLock();
       }
 
-      return { content: contentBuffer };
+      const completed = toolCalls.filter(Boolean);
+      if (completed.length > 0) {
+        return { content: contentBuffer, tool_calls: completed, usage };
+      }
+      return { content: contentBuffer, usage };
     },
   };
 }
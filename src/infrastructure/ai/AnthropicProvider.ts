@@ -0,0 +1,268 @@
+import type { AIProvider, ProviderUsage, StreamEvent } from "./AIProvider.js";
+import { safeStringify, readSseEvents } from "../../plumbing/Plumbing.js";
+import { ProviderError } from "./ProviderError.js";
+import { ProviderErrorCategory } from "../../domain/types.js";
+
+const BASE_URL = "https://api.anthropic.com/v1";
+const API_VERSION = "2023-06-01";
+const DEFAULT_MAX_TOKENS = 8192;
+const STREAM_ERROR_CATEGORIES: Record<string, ProviderErrorCategory> = {
+  overloaded_error: "overloaded",
+  rate_limit_error: "rate_limit",
+  authentication_error: "auth",
+  permission_error: "auth",
+};
+
+// OpenRouter-style ids ("anthropic/claude-sonnet-4") carry a vendor prefix the native API rejects.
+function toAnthropicModel(model: string): string {
+  return model.includes("/") ? model.slice(model.indexOf("/") + 1) : model;
+}
+
+function toAnthropicTools(tools: any[] | undefined): any[] | undefined {
+  if (!tools || tools.length === 0) return undefined;
+  return tools.map((t: any) => {
+    const fn = t.function || t;
+    return {
+      name: fn.name,
+      description: fn.description,
+      input_schema: fn.parameters || fn.input_schema || { type: "object" },
+    };
+  });
+}
+
+function parseArguments(raw: unknown): Record<string, unknown> {
+  if (typeof raw !== "string") return (raw as Record<string, unknown>) || {};
+  try {
+    return JSON.parse(raw || "{}");
+  } catch {
+    return { _raw: raw };
+  }
+}
+
+/**
+ * Translates OpenAI-style chat messages into Anthropic Messages API turns.
+ * Tool results become `tool_result` blocks on a user turn, and consecutive
+ * turns of the same role are merged since the API requires alternation
+ * (with `tool_result` blocks leading their turn).
+ */
+export function toAnthropicMessages(messages: any[]): {
+  system: string | undefined;
+  messages: any[];
+} {
+  const systemParts: string[] = [];
+  const out: { role: "user" | "assistant"; content: any[] }[] = [];
+
+  const append = (role: "user" | "assistant", blocks: any[]) => {
+    if (blocks.length === 0) return;
+    const last = out[out.length - 1];
+    if (last && last.role === role) last.content.push(...blocks);
+    else out.push({ role, content: blocks });
+  };
+
+  for (const msg of messages) {
+    const text =
+      typeof msg.content === "string"
+        ? msg.content
+        : msg.content == null
+          ? ""
+          : safeStringify(msg.content);
+
+    if (msg.role === "system") {
+      if (text) systemParts.push(text);
+      continue;
+    }
+
+    if (msg.role === "tool") {
+      append("user", [
+        {
+          type: "tool_result",
+          tool_use_id: msg.tool_call_id,
+          content: text,
+        },
+      ]);
+      continue;
+    }
+
+    if (msg.role === "assistant") {
+      const blocks: any[] = [];
+      if (text) blocks.push({ type: "text", text });
+      for (const call of msg.tool_calls || []) {
+        blocks.push({
+          type: "tool_use",
+          id: call.id,
+          name: call.function.name,
+          input: parseArguments(call.function.arguments),
+        });
+      }
+      append("assistant", blocks);
+      continue;
+    }
+
+    append("user", text ? [{ type: "text", text }] : []);
+  }
+
+  for (const turn of out) {
+    if (turn.role !== "user") continue;
+    turn.content = [
+      ...turn.content.filter((b) => b.type === "tool_result"),
+      ...turn.content.filter((b) => b.type !== "tool_result"),
+    ];
+  }
+
+  return {
+    system: systemParts.length > 0 ? systemParts.join("\n\n") : undefined,
+    messages: out,
+  };
+}
+
+function toUsage(usage: any): ProviderUsage | undefined {
+  if (!usage) return undefined;
+  const cached = usage.cache_read_input_tokens || 0;
+  return {
+    // input_tokens excludes cache reads; fold them back in so promptTokens means the whole prompt.
+    promptTokens: (usage.input_tokens || 0) + cached,
+    completionTokens: usage.output_tokens || 0,
+    cachedTokens: cached,
+  };
+}
+
+export function fromAnthropicResponse(data: any): any {
+  if (!Array.isArray(data?.content)) {
+    throw ProviderError.malformed("response has no content blocks");
+  }
+  const blocks: any[] = data.content;
+  const content = blocks
+    .filter((b) => b.type === "text")
+    .map((b) => b.text)
+    .join("");
+  const toolCalls = blocks
+    .filter((b) => b.type === "tool_use")
+    .map((b) => ({
+      id: b.id,
+      type: "function",
+      function: { name: b.name, arguments: safeStringify(b.input || {}) },
+    }));
+
+  const usage = toUsage(data.usage);
+  if (toolCalls.length > 0) return { content, tool_calls: toolCalls, usage };
+  return { content, usage };
+}
+
+export function createAnthropicProvider(apiKey: string): AIProvider {
+  const buildBody = (params: any) => {
+    const translated = toAnthropicMessages(params.messages || []);
+    const system = [params.system, translated.system]
+      .filter(Boolean)
+      .join("\n\n");
+    return {
+      model: toAnthropicModel(params.model),
+      max_tokens: params.max_tokens || DEFAULT_MAX_TOKENS,
+      system: system || undefined,
+      messages: translated.messages,
+      tools: toAnthropicTools(params.tools),
+    };
+  };
+
+  const headers = {
+    "x-api-key": apiKey,
+    "anthropic-version": API_VERSION,
+    "Content-Type": "application/json",
+  };
+
+  const createMessage = async (
+    params: any,
+    signal?: AbortSignal,
+  ): Promise<any> => {
+    const response = await fetch(`${BASE_URL}/messages`, {
+      method: "POST",
+      headers,
+      body: safeStringify(buildBody(params)),
+      signal,
+    });
+
+    if (!response.ok) throw await ProviderError.fromResponse(response);
+    return fromAnthropicResponse(await response.json());
+  };
+
+  return {
+    createMessage,
+
+    async createMessageStream(
+      params: any,
+      onUpdate: (e: StreamEvent) => void,
+      signal?: AbortSignal,
+    ): Promise<any> {
+      const response = await fetch(`${BASE_URL}/messages`, {
+        method: "POST",
+        headers,
+        body: safeStringify({ ...buildBody(params), stream: true }),
+        signal,
+      });
+
+      if (!response.ok) throw await ProviderError.fromResponse(response);
+      let contentBuffer = "";
+      let usage: ProviderUsage | undefined;
+      const toolCalls: any[] = [];
+      const toolIndexByBlock = new Map<number, number>();
+
+      for await (const event of readSseEvents(response.body!)) {
+        const json = JSON.parse(event.data);
+        if (json.type === "error") {
+          throw new ProviderError(
+            STREAM_ERROR_CATEGORIES[json.error?.type] || "unknown",
+            `Stream error: ${json.error?.message || "unknown"}`,
+          );
+        }
+
+        if (json.type === "message_start") {
+          usage = toUsage(json.message?.usage);
+          continue;
+        }
+        if (json.type === "message_delta" && usage) {
+          usage.completionTokens =
+            json.usage?.output_tokens ?? usage.completionTokens;
+          continue;
+        }
+
+        if (
+          json.type === "content_block_start" &&
+          json.content_block?.type === "tool_use"
+        ) {
+          toolIndexByBlock.set(json.index, toolCalls.length);
+          toolCalls.push({
+            id: json.content_block.id,
+            type: "function",
+            function: { name: json.content_block.name, arguments: "" },
+          });
+          continue;
+        }
+
+        if (json.type !== "content_block_delta") continue;
+        if (json.delta.type === "text_delta") {
+          contentBuffer += json.delta.text;
+          onUpdate({ type: "content_delta", text: json.delta.text });
+        } else if (json.delta.type === "input_json_delta") {
+          const index = toolIndexByBlock.get(json.index);
+          if (index === undefined) continue;
+          const call = toolCalls[index];
+          call.function.arguments += json.delta.partial_json;
+          onUpdate({
+            type: "tool_call_delta",
+            index,
+            id: call.id,
+            name: call.function.name,
+            argumentsDelta: json.delta.partial_json,
+          });
+        }
+      }
+
+      for (const call of toolCalls) {
+        if (!call.function.arguments) call.function.arguments = "{}";
+      }
+      if (toolCalls.length > 0) {
+        return { content: contentBuffer, tool_calls: toolCalls, usage };
+      }
+      return { content: contentBuffer, usage };
+    },
+  };
+}
@@ -1,35 +1,165 @@
-import { AIProvider } from "./AIProvider.js";
+import { AIProvider, StreamEvent } from "./AIProvider.js";
 import { getTool, getRegisteredTools } from "../tools/ToolRegistry.js";
-import { repairJson, safeStringify } from "../../plumbing/Plumbing.js";
+import {
+  repairJson,
+  resolvePath,
+  safeStringify,
+} from "../../plumbing/Plumbing.js";
 import { PromptHarness, DevelopmentLoop, LayerContext } from "../../prompts.js";
-import { Callbacks, RunTelemetry } from "../../domain/types.js";
+import {
+  ApprovalDecision,
+  Callbacks,
+  RunBudget,
+  RunTelemetry,
+} from "../../domain/types.js";
 import { orchestrator } from "./Orchestrator.js";
 import { dbPool } from "../DbPool.js";
-import { getLayer, validateLayering } from "../Validator.js";
+import { getLayer, getLayerRule, validateLayering } from "../Validator.js";
+import { describeLayerRule, getLayerPriority } from "../LayerRules.js";
+import {
+  findDependents,
+  findNewCycles,
+  formatCycle,
+  getDependencyGraph,
+  withFileContents,
+} from "../DependencyGraph.js";
+import {
+  TypeCheckReport,
+  formatTypeCheckResult,
+  formatTypeDiagnostic,
+  getTypeChecker,
+} from "../TypeChecker.js";
+import { SOURCE_EXTENSIONS } from "../tools/Imports.js";
 import { scheduler } from "./Scheduler.js";
+import { accountUsage } from "../Usage.js";
+import {
+  getModel,
+  getLlmFast,
+  getApprovalPolicy,
+  getWorktreeIsolation,
+  getRejectImportCycles,
+  getTypeCheckPolicy,
+} from "../Config.js";
+import {
+  buildApprovalRequest,
+  formatRejection,
+  getStrictestApprovalMode,
+} from "../Approval.js";
+import {
+  BudgetExceededError,
+  BudgetState,
+  budgetSignal,
+  enforceBudget,
+} from "./RunBudget.js";
+import { SubagentRunner } from "./SubagentRunner.js";
+import { revertRun } from "../FileJournal.js";
+import { FileOverlay } from "../FileOverlay.js";
 import { v4 as uuidv4 } from "uuid";
-import * as fs from "fs";
+import * as path from "path";
+
+export interface ModelRouting {
+  main: string;
+  fast: string;
+  stages?: Partial<Record<DevelopmentLoop, string>>;
+}
+
+export interface EngineOptions {
+  streamId?: string;
+  workingDir?: string;
+  /** Dry run: file tools work against this overlay and the workspace stays untouched. */
+  overlay?: FileOverlay;
+  stream?: boolean;
+  budget?: RunBudget;
+  models?: ModelRouting;
+  /** Nesting level of a subagent engine; unset for the top-level run. */
+  subagentDepth?: number;
+}
+
+const FAST_STAGES = [DevelopmentLoop.LIST, DevelopmentLoop.IDENTIFY];
+
+// Read-only workspace exploration, allowed while grounding a change.
+const SEARCH_TOOLS = ["search_code", "list_tree"];
+
+// Tools that change files; every file a call writes must belong to the proposal at the head of the scheduler queue.
+const WRITE_TOOLS = [
+  "apply_change",
+  "replace_file_content",
+  "multi_replace_file_content",
+  "delete_file",
+  "move_file",
+];
 
 export class Engine {
   private currentStep: DevelopmentLoop = DevelopmentLoop.LIST;
   private lastOperation?: { tool: string; result: string; success: boolean };
-  private streamId: string = "main-stream"; // Default for now
+  private readonly streamId: string;
+  private readonly workingDir: string;
+  private subagents?: SubagentRunner;
 
-  constructor(private readonly provider: AIProvider) { }
+  constructor(
+    private readonly provider: AIProvider,
+    private readonly options: EngineOptions = {},
+  ) {
+    this.streamId = options.streamId || "main-stream";
+    this.workingDir = options.workingDir || process.cwd();
+  }
 
   public async chatLoop(
     messages: any[],
     run: RunTelemetry,
     callbacks: Callbacks,
     signal?: AbortSignal,
+  ): Promise<any> {
+    const budget: RunBudget = { ...this.options.budget, ...callbacks.budget };
+    const runSignal = budgetSignal(budget, run, signal);
+    try {
+      return await this.runLoop(messages, run, callbacks, budget, runSignal);
+    } catch (e) {
+      // Aborted, over budget or failed: a run that does not finish leaves no half-applied files.
+      // Subagents stop first, so work they merge back is journaled before the run is restored.
+      await this.subagents?.cancel();
+      await this.restoreFiles(run);
+      // Stopped mid-turn by the wall-clock budget rather than by the caller.
+      if (
+        runSignal?.aborted &&
+        !signal?.aborted &&
+        !(e instanceof BudgetExceededError)
+      ) {
+        dbPool.rollbackWork(this.streamId);
+        throw new BudgetExceededError(
+          "maxDurationMs",
+          budget.maxDurationMs,
+          Date.now() - run.startedAt,
+        );
+      }
+      throw e;
+    }
+  }
+
+  private async runLoop(
+    messages: any[],
+    run: RunTelemetry,
+    callbacks: Callbacks,
+    budget: RunBudget,
+    signal?: AbortSignal,
   ): Promise<any> {
     dbPool.beginWork(this.streamId);
+    const budgetState: BudgetState = { turns: 0, consecutiveBreaches: 0 };
 
     while (true) {
+      // MECHANICAL GUARD: Budget Enforcement
+      try {
+        enforceBudget(budget, budgetState, run);
+      } catch (e) {
+        dbPool.rollbackWork(this.streamId);
+        throw e;
+      }
+
       if (signal?.aborted) {
         dbPool.rollbackWork(this.streamId);
         throw new Error("Pass Aborted");
       }
+      budgetState.turns++;
 
       // Resolve orchestration context
       const activeStreams = await orchestrator.getActiveStreams();
@@ -38,18 +168,20 @@ export class Engine {
         focus: "Evolutionary Loop execution",
         activeDiffs: scheduler.getContext(), // Now shows the scheduler queue
         sharedLocks: [],
-        activeStreams: activeStreams.map(s => ({ id: s.id, focus: s.focus }))
+        activeStreams: activeStreams.map((s) => ({ id: s.id, focus: s.focus })),
       };
 
       // Resolve context for the harness
-      const activePath = messages.findLast((m) => m.role === "tool" && m.name === "read_file")?.path || "Unknown";
+      const activePath =
+        messages.findLast((m) => m.role === "tool" && m.name === "read_file")
+          ?.path || "Unknown";
       let layerContext: LayerContext | undefined;
       try {
-        const layer = getLayer(activePath);
+        const rule = getLayerRule(activePath, this.workingDir);
         layerContext = {
           path: activePath,
-          layer,
-          constraints: [] // Constraints are now mechanically enforced by AstValidator
+          layer: rule.name,
+          constraints: describeLayerRule(rule), // Also mechanically enforced by AstValidator
         };
       } catch {
         // Fallback or skip if not a valid layer path
@@ -62,13 +194,14 @@ export class Engine {
         lastOperation: this.lastOperation,
         telemetry: {
           memoryUsage: `${Math.round(process.memoryUsage().heapUsed / 1024 / 1024)}MB`,
-          uptime: `${Math.round(process.uptime())}s`
-        }
+          uptime: `${Math.round(process.uptime())}s`,
+        },
       });
       const systemPrompt = harness.generateSystemPrompt();
 
-      const response = await this.provider.createMessage({
-        model: "google/gemini-2.0-flash-001",
+      const stage = this.currentStep;
+      const request = {
+        model: this.resolveModel(stage),
         system: systemPrompt,
         messages,
         tools: getRegisteredTools().map((t) => ({
@@ -79,6 +212,20 @@ export class Engine {
             parameters: t.input_schema,
           },
         })),
+      };
+      const response = this.options.stream
+        ? await this.provider.createMessageStream(
+            request,
+            (event) => this.relayStreamEvent(event, run, callbacks),
+            signal,
+          )
+        : await this.provider.createMessage(request, signal);
+      const usage = accountUsage(run, request.model, request, response);
+      (run.turns ||= []).push({
+        turn: budgetState.turns,
+        stage,
+        model: request.model,
+        usage,
       });
 
       const content = response.content;
@@ -87,56 +234,187 @@ export class Engine {
       // MECHANICAL GUARD: Thinking Enforcement
       if (!content.includes("<thinking>")) {
         this.currentStep = DevelopmentLoop.ERROR_RECOVERY;
-        this.lastOperation = { tool: "assistant_thinking", result: "ABSOLUTE BREACH: AI skipped mandatory <thinking> block.", success: false };
-        messages.push({ role: "assistant", content: `Architectural Breach: Missing <thinking> block. Entering recovery.` });
+        this.lastOperation = {
+          tool: "assistant_thinking",
+          result: "ABSOLUTE BREACH: AI skipped mandatory <thinking> block.",
+          success: false,
+        };
+        this.appendMessage(messages, callbacks, {
+          role: "assistant",
+          content: `Architectural Breach: Missing <thinking> block. Entering recovery.`,
+        });
+        budgetState.consecutiveBreaches++;
         continue;
       }
 
-      if (toolCalls.length === 0) return content;
+      if (toolCalls.length === 0) {
+        // Never finish with subagents still running: hand their results back for consolidation.
+        if (this.subagents?.hasPending()) {
+          this.appendMessage(messages, callbacks, {
+            role: "assistant",
+            content,
+          });
+          this.appendMessage(messages, callbacks, {
+            role: "user",
+            content: `Subagent results (consolidate before finishing):\n${await this.subagents.collect()}`,
+          });
+          this.currentStep = DevelopmentLoop.RE_EVALUATE;
+          continue;
+        }
+        return content;
+      }
 
-      messages.push({ role: "assistant", content, tool_calls: toolCalls });
+      this.appendMessage(messages, callbacks, {
+        role: "assistant",
+        content,
+        tool_calls: toolCalls,
+      });
 
       for (const call of toolCalls) {
         // MECHANICAL GUARD: Loop Integrity Check
         const toolName = call.function.name;
         const validNextSteps: Record<DevelopmentLoop, string[]> = {
-          [DevelopmentLoop.LIST]: ["list_files", "read_file"],
-          [DevelopmentLoop.IDENTIFY]: ["read_file", "propose_diff", "list_files"],
-          [DevelopmentLoop.PROPOSE]: ["propose_diff", "apply_change"],
-          [DevelopmentLoop.APPLY]: ["apply_change", "list_files"],
-          [DevelopmentLoop.RE_EVALUATE]: ["list_files", "read_file", "propose_diff"],
-          [DevelopmentLoop.ERROR_RECOVERY]: ["list_files", "read_file", "propose_diff"]
+          [DevelopmentLoop.LIST]: ["list_files", "read_file", ...SEARCH_TOOLS],
+          [DevelopmentLoop.IDENTIFY]: [
+            "read_file",
+            "propose_diff",
+            "list_files",
+            ...SEARCH_TOOLS,
+            "spawn_subagent",
+            "await_subagents",
+          ],
+          [DevelopmentLoop.PROPOSE]: [
+            "propose_diff",
+            ...WRITE_TOOLS,
+            "spawn_subagent",
+          ],
+          [DevelopmentLoop.APPLY]: [...WRITE_TOOLS, "list_files"],
+          [DevelopmentLoop.RE_EVALUATE]: [
+            "list_files",
+            "read_file",
+            "propose_diff",
+            "await_subagents",
+          ],
+          [DevelopmentLoop.ERROR_RECOVERY]: [
+            "list_files",
+            "read_file",
+            "propose_diff",
+            "await_subagents",
+          ],
         };
 
         if (!validNextSteps[this.currentStep].includes(toolName)) {
           this.currentStep = DevelopmentLoop.ERROR_RECOVERY;
-          this.lastOperation = { tool: toolName, result: `ABSOLUTE BREACH: Illegal loop transition from ${this.currentStep} to ${toolName}.`, success: false };
-          messages.push({
+          this.lastOperation = {
+            tool: toolName,
+            result: `ABSOLUTE BREACH: Illegal loop transition from ${this.currentStep} to ${toolName}.`,
+            success: false,
+          };
+          this.appendMessage(messages, callbacks, {
             role: "tool",
             tool_call_id: call.id,
             name: toolName,
-            content: `Architectural Breach: Tool usage does not follow the evolutionary loop sequence.`
+            content: `Architectural Breach: Tool usage does not follow the evolutionary loop sequence.`,
           });
+          budgetState.consecutiveBreaches++;
           continue;
         }
 
         const tool = getTool(toolName);
         if (!tool) {
-          messages.push({
+          this.appendMessage(messages, callbacks, {
             role: "tool",
             tool_call_id: call.id,
             name: call.function.name,
             content: `Error: Tool '${call.function.name}' is deprecated or unauthorized. You must use the diff-native toolset.`,
           });
+          budgetState.consecutiveBreaches++;
           continue;
         }
 
         try {
-          const args =
+          let args =
             typeof call.function.arguments === "string"
               ? JSON.parse(repairJson(call.function.arguments).repaired)
               : call.function.arguments;
 
+          const toolContext = {
+            streamId: this.streamId,
+            workingDir: this.workingDir,
+            runId: run.runId,
+            toolCallId: call.id,
+            overlay: this.options.overlay,
+            subagents: this.getSubagents(),
+          };
+
+          // HUMAN GUARD: Supervised Approval, over every path the call writes.
+          // Dry runs only write the overlay, so nothing there needs a reviewer.
+          const planned =
+            tool.mutates && tool.writes
+              ? await tool.writes(args, toolContext)
+              : undefined;
+          const plannedPaths = planned
+            ? Array.from(planned.keys(), (f) => this.toWorkspacePath(f))
+            : typeof args.path === "string"
+              ? [args.path]
+              : [];
+          if (
+            tool.mutates &&
+            !this.options.overlay &&
+            getStrictestApprovalMode(
+              getApprovalPolicy(),
+              toolName,
+              plannedPaths,
+              this.workingDir,
+            ) === "confirm"
+          ) {
+            const proposed = tool.preview
+              ? await tool.preview(args, toolContext)
+              : undefined;
+            const request = await buildApprovalRequest(
+              toolName,
+              args,
+              this.workingDir,
+              proposed,
+              this.options.overlay,
+              planned,
+            );
+            const decision: ApprovalDecision = callbacks.onApproval
+              ? await callbacks.onApproval(request)
+              : {
+                  approved: false,
+                  comment:
+                    "Approval required but no reviewer is attached to this run.",
+                };
+            if (!decision.approved) {
+              this.lastOperation = {
+                tool: toolName,
+                result: `Rejected by reviewer: ${decision.comment || "(no comment)"}`,
+                success: false,
+              };
+              this.appendMessage(messages, callbacks, {
+                role: "tool",
+                tool_call_id: call.id,
+                name: toolName,
+                content: formatRejection(request, decision),
+              });
+              continue;
+            }
+            if (decision.args) args = decision.args;
+          }
+
+          // MECHANICAL GUARD: Scheduler Gating, before anything touches the workspace
+          const writes =
+            WRITE_TOOLS.includes(toolName) && tool.writes
+              ? await tool.writes(args, toolContext)
+              : undefined;
+          const written = writes ? Array.from(writes.keys()) : [];
+          const scheduled =
+            written.length > 0 ? this.getScheduledProposal(written) : undefined;
+          const typeCheck = writes
+            ? await this.verifyChange(writes)
+            : undefined;
+
           callbacks.onProgress?.({
             type: "tool_start",
             tool: call.function.name,
@@ -146,39 +424,33 @@ export class Engine {
             args,
             (u) => callbacks.onProgress?.(u as any),
             signal,
+            toolContext,
           );
+          if (scheduled)
+            scheduler.recordWrites(
+              scheduled.id,
+              written.map((f) => this.toWorkspacePath(f)),
+            );
 
           // SOVEREIGN GUARD: Architectural Validation & Scheduling
-          if (["propose_diff", "apply_change", "write_to_file", "multi_replace_file_content", "replace_file_content"].includes(toolName)) {
+          // The replace tools validate the content they compute before writing it, so they are not re-read here.
+          if (
+            ["propose_diff", "apply_change", "write_to_file"].includes(toolName)
+          ) {
             const targetPath = args.path || args.targetFile || args.TargetFile;
-            const targetContent = args.content || args.codeContent || args.CodeContent || (targetPath ? fs.readFileSync(targetPath, "utf-8") : "");
-
-            if (targetPath) {
-              const layer = getLayer(targetPath);
-
-              if (toolName === "propose_diff") {
-                // Register proposal with scheduler
-                scheduler.propose({
-                  id: uuidv4(),
-                  agentId: this.streamId,
-                  layer,
-                  affectedFiles: [targetPath],
-                  dependencies: [],
-                  riskScore: 50 // Default risk for now
-                });
-              }
+            const targetContent =
+              args.content || args.codeContent || args.CodeContent;
 
-              if (toolName === "apply_change") {
-                // Check with scheduler
-                const executable = scheduler.getExecutableProposal(this.streamId);
-                if (!executable || !executable.affectedFiles.includes(targetPath)) {
-                  throw new Error(`CRITICAL SCHEDULING BREACH: Diff for ${targetPath} is currently blocked or not at the head of the queue. Layer context: ${layer}`);
-                }
-                scheduler.updateStatus(executable.id, "applied");
-              }
+            if (toolName === "propose_diff") this.registerProposal(args);
 
+            // Only content the call carries is checked; nothing is read from a model-chosen path.
+            if (targetPath && typeof targetContent === "string") {
               try {
-                await validateLayering(targetPath, targetContent);
+                await validateLayering(
+                  targetPath,
+                  targetContent,
+                  this.workingDir,
+                );
               } catch (e: any) {
                 throw new Error(`CRITICAL ARCHITECTURAL BREACH: ${e.message}`);
               }
@@ -186,25 +458,42 @@ export class Engine {
           }
 
           // State Transition Logic
-          if (call.function.name === "list_files") this.currentStep = DevelopmentLoop.IDENTIFY;
-          if (call.function.name === "read_file") this.currentStep = DevelopmentLoop.IDENTIFY;
-          if (call.function.name === "propose_diff") this.currentStep = DevelopmentLoop.APPLY;
-          if (call.function.name === "apply_change") this.currentStep = DevelopmentLoop.RE_EVALUATE;
+          if (call.function.name === "list_files")
+            this.currentStep = DevelopmentLoop.IDENTIFY;
+          if (call.function.name === "read_file")
+            this.currentStep = DevelopmentLoop.IDENTIFY;
+          if (SEARCH_TOOLS.includes(call.function.name))
+            this.currentStep = DevelopmentLoop.IDENTIFY;
+          if (call.function.name === "propose_diff")
+            this.currentStep = DevelopmentLoop.APPLY;
+          if (WRITE_TOOLS.includes(call.function.name))
+            this.currentStep = DevelopmentLoop.RE_EVALUATE;
+          if (call.function.name === "await_subagents")
+            this.currentStep = DevelopmentLoop.RE_EVALUATE;
 
-          this.lastOperation = { tool: call.function.name, result: typeof result === "string" ? result : safeStringify(result), success: true };
+          const output =
+            typeof result === "string" ? result : safeStringify(result);
+          this.lastOperation = {
+            tool: call.function.name,
+            result: typeCheck
+              ? formatTypeCheckResult(output, typeCheck)
+              : output,
+            success: true,
+          };
+          budgetState.consecutiveBreaches = 0;
 
-          messages.push({
+          this.appendMessage(messages, callbacks, {
             role: "tool",
             tool_call_id: call.id,
             name: call.function.name,
             content: this.lastOperation.result,
-            path: args.path // Store path for layer context retrieval
+            path: args.path, // Store path for layer context retrieval
           });
 
           // Guidance Injection
-          messages.push({
+          this.appendMessage(messages, callbacks, {
             role: "user",
-            content: harness.generateContinuationPrompt()
+            content: harness.generateContinuationPrompt(),
           });
 
           callbacks.onProgress?.({
@@ -214,16 +503,196 @@ export class Engine {
           });
         } catch (e: any) {
           this.currentStep = DevelopmentLoop.ERROR_RECOVERY;
-          this.lastOperation = { tool: call.function.name, result: e.message, success: false };
+          this.lastOperation = {
+            tool: call.function.name,
+            result: e.message,
+            success: false,
+          };
 
-          messages.push({
+          this.appendMessage(messages, callbacks, {
             role: "tool",
             tool_call_id: call.id,
             name: call.function.name,
             content: `Architectural Breach: ${e.message}`,
           });
+          budgetState.consecutiveBreaches++;
         }
       }
     }
   }
+
+  // Scheduler entries use workspace-relative paths, however the model spelled them.
+  private toWorkspacePath(filePath: string): string {
+    return path
+      .relative(this.workingDir, resolvePath(filePath, this.workingDir))
+      .replace(/\\/g, "/");
+  }
+
+  // One proposal per propose_diff call, covering every file it plans to touch; the highest-priority layer schedules it.
+  private registerProposal(args: any) {
+    const planned = [
+      ...(Array.isArray(args.operations)
+        ? args.operations.map((op: any) => op?.path)
+        : []),
+      ...(Array.isArray(args.analysis?.affected_files)
+        ? args.analysis.affected_files
+        : []),
+    ].filter((p): p is string => typeof p === "string" && p.length > 0);
+    const affectedFiles = Array.from(
+      new Set(planned.map((p) => this.toWorkspacePath(p))),
+    );
+    if (affectedFiles.length === 0) return;
+    const layer = affectedFiles
+      .map((f) => getLayer(f, this.workingDir))
+      .sort(
+        (a, b) =>
+          getLayerPriority(b, this.workingDir) -
+          getLayerPriority(a, this.workingDir),
+      )[0];
+
+    scheduler.withdraw(this.streamId);
+    scheduler.propose({
+      id: uuidv4(),
+      agentId: this.streamId,
+      layer,
+      root: this.workingDir,
+      affectedFiles,
+      dependencies: [],
+      riskScore: 50, // Default risk for now
+    });
+  }
+
+  private getScheduledProposal(targetPaths: string[]) {
+    const executable = scheduler.getExecutableProposal(this.streamId);
+    const unscheduled = targetPaths
+      .map((p) => this.toWorkspacePath(p))
+      .filter((p) => !executable?.affectedFiles.includes(p));
+    if (unscheduled.length > 0) {
+      throw new Error(
+        `CRITICAL SCHEDULING BREACH: Diff for ${unscheduled.join(", ")} is currently blocked or not at the head of the queue. Layer context: ${getLayer(unscheduled[0], this.workingDir)}`,
+      );
+    }
+    return executable;
+  }
+
+  // DEPENDENCY & TYPE GUARDS: the files a write tool is about to change may not close a new import cycle,
+  // and are type-checked with their dependents so RE_EVALUATE sees the compiler's verdict.
+  private async verifyChange(
+    writes: Map<string, string | null>,
+  ): Promise<TypeCheckReport | undefined> {
+    const changes = new Map(
+      Array.from(writes).filter(([file]) =>
+        SOURCE_EXTENSIONS.includes(path.extname(file)),
+      ),
+    );
+    if (changes.size === 0) return undefined;
+    const policy = getTypeCheckPolicy();
+    if (!getRejectImportCycles() && !policy.enabled) return undefined;
+    const changed = Array.from(changes.keys()).map((f) =>
+      this.toWorkspacePath(f),
+    );
+
+    // A dry run's earlier changes are part of the state this change is checked against.
+    const pending =
+      this.options.overlay?.getChanges() ?? new Map<string, string | null>();
+    const before = withFileContents(
+      await getDependencyGraph(this.workingDir),
+      pending,
+    );
+    if (getRejectImportCycles()) {
+      const introduced = findNewCycles(
+        before,
+        withFileContents(before, changes),
+      );
+      if (introduced.length > 0) {
+        throw new Error(
+          `CRITICAL DEPENDENCY CYCLE BREACH: ${changed.join(", ")} would introduce an import cycle: ${introduced.map(formatCycle).join("; ")}`,
+        );
+      }
+    }
+    if (!policy.enabled) return undefined;
+
+    const dependents = Array.from(
+      new Set(
+        changed.flatMap((f) => findDependents(before, f, policy.maxDependents)),
+      ),
+    )
+      .filter((f) => !changed.includes(f))
+      .slice(0, policy.maxDependents);
+    const report = getTypeChecker(this.workingDir).checkChanges(
+      changes,
+      dependents,
+      policy.maxDiagnostics,
+      pending,
+    );
+    if (policy.rejectNewErrors && report.newErrors.length > 0) {
+      throw new Error(
+        `CRITICAL TYPE CHECK BREACH: ${changed.join(", ")} would introduce ${report.newErrors.length} new type error(s): ${report.newErrors.slice(0, 5).map(formatTypeDiagnostic).join("; ")}`,
+      );
+    }
+    return report;
+  }
+
+  // The journal refuses to restore files that were edited since the run wrote them.
+  private async restoreFiles(run: RunTelemetry) {
+    try {
+      await revertRun(run.runId);
+    } catch (e: any) {
+      console.error(
+        `[Engine] Could not restore files of ${run.runId}:`,
+        e.message,
+      );
+    }
+  }
+
+  // Child engines share this engine's provider and settings but run under their own stream id and tree.
+  private getSubagents(): SubagentRunner {
+    const depth = this.options.subagentDepth ?? 0;
+    this.subagents ||= new SubagentRunner(
+      (stream, workingDir) =>
+        new Engine(this.provider, {
+          ...this.options,
+          streamId: stream.id,
+          workingDir,
+          stream: false,
+          subagentDepth: depth + 1,
+        }),
+      this.workingDir,
+      // Dry-run children share the parent's overlay, so they must see the same paths.
+      !this.options.overlay && getWorktreeIsolation(),
+      depth,
+    );
+    return this.subagents;
+  }
+
+  private appendMessage(messages: any[], callbacks: Callbacks, message: any) {
+    messages.push(message);
+    callbacks.onMessage?.(message);
+  }
+
+  // Grounding stages run on the fast model; mutation and recovery stages get the main one.
+  private resolveModel(step: DevelopmentLoop): string {
+    const models = this.options.models;
+    const override = models?.stages?.[step];
+    if (override) return override;
+    if (FAST_STAGES.includes(step)) return models?.fast || getLlmFast();
+    return models?.main || getModel();
+  }
+
+  private relayStreamEvent(
+    event: StreamEvent,
+    run: RunTelemetry,
+    callbacks: Callbacks,
+  ) {
+    if (event.type === "content_delta") {
+      callbacks.onStream?.(event.text, run.runId);
+    } else if (event.type === "tool_call_delta") {
+      callbacks.onProgress?.({
+        type: "tool_call_delta",
+        tool: event.name,
+        toolCallIndex: event.index,
+        args: event.argumentsDelta,
+      });
+    }
+  }
 }
@@ -0,0 +1,271 @@
+import type { AIProvider, ProviderUsage, StreamEvent } from "./AIProvider.js";
+import { safeStringify, readSseEvents } from "../../plumbing/Plumbing.js";
+import { ProviderError } from "./ProviderError.js";
+import { v4 as uuidv4 } from "uuid";
+
+const BASE_URL = "https://generativelanguage.googleapis.com/v1beta";
+const SCHEMA_KEYS = new Set([
+  "type",
+  "format",
+  "description",
+  "nullable",
+  "enum",
+  "properties",
+  "required",
+  "items",
+]);
+
+// OpenRouter-style ids ("google/gemini-2.0-flash-001") carry a vendor prefix the native API rejects.
+function toGeminiModel(model: string): string {
+  return model.includes("/") ? model.slice(model.indexOf("/") + 1) : model;
+}
+
+// Gemini accepts an OpenAPI subset: unknown keywords are rejected and enums must be typed.
+function toGeminiSchema(schema: any): any {
+  if (!schema || typeof schema !== "object") return schema;
+  const out: Record<string, any> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (!SCHEMA_KEYS.has(key)) continue;
+    if (key === "properties") {
+      out.properties = Object.fromEntries(
+        Object.entries(value as Record<string, any>).map(([k, v]) => [
+          k,
+          toGeminiSchema(v),
+        ]),
+      );
+    } else if (key === "items") {
+      out.items = toGeminiSchema(value);
+    } else {
+      out[key] = value;
+    }
+  }
+  if (out.enum && !out.type) out.type = "string";
+  return out;
+}
+
+function toGeminiTools(tools: any[] | undefined): any[] | undefined {
+  if (!tools || tools.length === 0) return undefined;
+  return [
+    {
+      functionDeclarations: tools.map((t: any) => {
+        const fn = t.function || t;
+        return {
+          name: fn.name,
+          description: fn.description,
+          parameters: toGeminiSchema(fn.parameters || fn.input_schema),
+        };
+      }),
+    },
+  ];
+}
+
+function parseArguments(raw: unknown): Record<string, unknown> {
+  if (typeof raw !== "string") return (raw as Record<string, unknown>) || {};
+  try {
+    return JSON.parse(raw || "{}");
+  } catch {
+    return { _raw: raw };
+  }
+}
+
+/**
+ * Translates OpenAI-style chat messages into Gemini `contents`. Tool results
+ * become `functionResponse` parts on a user turn, keyed by function name since
+ * Gemini has no call ids.
+ */
+export function toGeminiContents(messages: any[]): {
+  systemInstruction: any;
+  contents: any[];
+} {
+  const systemParts: string[] = [];
+  const contents: { role: "user" | "model"; parts: any[] }[] = [];
+  const namesByCallId = new Map<string, string>();
+
+  const append = (role: "user" | "model", parts: any[]) => {
+    if (parts.length === 0) return;
+    const last = contents[contents.length - 1];
+    if (last && last.role === role) last.parts.push(...parts);
+    else contents.push({ role, parts });
+  };
+
+  for (const msg of messages) {
+    const text =
+      typeof msg.content === "string"
+        ? msg.content
+        : msg.content == null
+          ? ""
+          : safeStringify(msg.content);
+
+    if (msg.role === "system") {
+      if (text) systemParts.push(text);
+      continue;
+    }
+
+    if (msg.role === "tool") {
+      append("user", [
+        {
+          functionResponse: {
+            name: msg.name || namesByCallId.get(msg.tool_call_id) || "tool",
+            response: { content: text },
+          },
+        },
+      ]);
+      continue;
+    }
+
+    if (msg.role === "assistant") {
+      const parts: any[] = [];
+      if (text) parts.push({ text });
+      for (const call of msg.tool_calls || []) {
+        namesByCallId.set(call.id, call.function.name);
+        parts.push({
+          functionCall: {
+            name: call.function.name,
+            args: parseArguments(call.function.arguments),
+          },
+        });
+      }
+      append("model", parts);
+      continue;
+    }
+
+    append("user", text ? [{ text }] : []);
+  }
+
+  return {
+    systemInstruction:
+      systemParts.length > 0
+        ? { parts: [{ text: systemParts.join("\n\n") }] }
+        : undefined,
+    contents,
+  };
+}
+
+function toUsage(usage: any): ProviderUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    promptTokens: usage.promptTokenCount || 0,
+    completionTokens: usage.candidatesTokenCount || 0,
+    cachedTokens: usage.cachedContentTokenCount || 0,
+  };
+}
+
+export function fromGeminiResponse(data: any): any {
+  const parts: any[] = data.candidates?.[0]?.content?.parts || [];
+  const content = parts
+    .filter((p) => typeof p.text === "string")
+    .map((p) => p.text)
+    .join("");
+  const toolCalls = parts
+    .filter((p) => p.functionCall)
+    .map((p) => ({
+      id: `call_${uuidv4()}`,
+      type: "function",
+      function: {
+        name: p.functionCall.name,
+        arguments: safeStringify(p.functionCall.args || {}),
+      },
+    }));
+
+  const usage = toUsage(data.usageMetadata);
+  if (toolCalls.length > 0) return { content, tool_calls: toolCalls, usage };
+  return { content, usage };
+}
+
+export function createGoogleProvider(apiKey: string): AIProvider {
+  const buildBody = (params: any) => {
+    const translated = toGeminiContents(params.messages || []);
+    const system = [params.system, translated.systemInstruction?.parts[0].text]
+      .filter(Boolean)
+      .join("\n\n");
+    return {
+      systemInstruction: system ? { parts: [{ text: system }] } : undefined,
+      contents: translated.contents,
+      tools: toGeminiTools(params.tools),
+    };
+  };
+
+  const createMessage = async (
+    params: any,
+    signal?: AbortSignal,
+  ): Promise<any> => {
+    const model = toGeminiModel(params.model);
+    const response = await fetch(
+      `${BASE_URL}/models/${model}:generateContent`,
+      {
+        method: "POST",
+        headers: {
+          "x-goog-api-key": apiKey,
+          "Content-Type": "application/json",
+        },
+        body: safeStringify(buildBody(params)),
+        signal,
+      },
+    );
+
+    if (!response.ok) throw await ProviderError.fromResponse(response);
+    const data = (await response.json()) as any;
+    if (!data.candidates?.length) {
+      const reason = data.promptFeedback?.blockReason;
+      throw ProviderError.malformed(
+        reason ? `prompt blocked (${reason})` : "response has no candidates",
+      );
+    }
+    return fromGeminiResponse(data);
+  };
+
+  return {
+    createMessage,
+
+    async createMessageStream(
+      params: any,
+      onUpdate: (e: StreamEvent) => void,
+      signal?: AbortSignal,
+    ): Promise<any> {
+      const model = toGeminiModel(params.model);
+      const response = await fetch(
+        `${BASE_URL}/models/${model}:streamGenerateContent?alt=sse`,
+        {
+          method: "POST",
+          headers: {
+            "x-goog-api-key": apiKey,
+            "Content-Type": "application/json",
+          },
+          body: safeStringify(buildBody(params)),
+          signal,
+        },
+      );
+
+      if (!response.ok) throw await ProviderError.fromResponse(response);
+      let contentBuffer = "";
+      let usage: ProviderUsage | undefined;
+      const toolCalls: any[] = [];
+
+      // Gemini streams whole parts: text arrives in pieces, function calls arrive complete.
+      for await (const event of readSseEvents(response.body!)) {
+        const chunk = fromGeminiResponse(JSON.parse(event.data));
+        // Each chunk reports cumulative usage; the last one is the total.
+        if (chunk.usage) usage = chunk.usage;
+        if (chunk.content) {
+          contentBuffer += chunk.content;
+          onUpdate({ type: "content_delta", text: chunk.content });
+        }
+        for (const call of chunk.tool_calls || []) {
+          onUpdate({
+            type: "tool_call_delta",
+            index: toolCalls.length,
+            id: call.id,
+            name: call.function.name,
+            argumentsDelta: call.function.arguments,
+          });
+          toolCalls.push(call);
+        }
+      }
+
+      if (toolCalls.length > 0) {
+        return { content: contentBuffer, tool_calls: toolCalls, usage };
+      }
+      return { content: contentBuffer, usage };
+    },
+  };
+}
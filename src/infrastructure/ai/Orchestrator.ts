@@ -51,16 +51,28 @@ export class AgentOrchestrator {
             result: null,
         };
 
+        // Tasks are handed to the subagent runner, so they go straight to the shared buffer
+        // rather than the stream's uncommitted shadow.
         await dbPool.push({
             type: "insert",
             table: "agent_tasks",
             values: task,
             layer: "infrastructure"
-        }, streamId);
+        });
 
         return task;
     }
 
+    public async updateStreamStatus(streamId: string, status: AgentStream["status"]): Promise<void> {
+        await dbPool.push({
+            type: "update",
+            table: "agent_streams",
+            values: { status },
+            where: { column: "id", value: streamId },
+            layer: "infrastructure"
+        });
+    }
+
     public async updateTaskStatus(taskId: string, status: AgentTask["status"], result: string | null = null): Promise<void> {
         // Find the streamId for this task to use as agentId if needed
         // For simplicity in this pass, we use a generic agent update or assume the caller knows the stream.
@@ -0,0 +1,151 @@
+import { ProviderErrorCategory, RunError } from "../../domain/types.js";
+import { BudgetExceededError } from "./RunBudget.js";
+
+const RETRYABLE: ProviderErrorCategory[] = [
+  "rate_limit",
+  "overloaded",
+  "network",
+];
+
+const NETWORK_ERROR_CODES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ENOTFOUND",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "EPIPE",
+  "ENETUNREACH",
+  "EHOSTUNREACH",
+];
+
+// fetch (undici) rejects with TypeError("fetch failed") or a socket error whose code says what broke.
+function isNetworkFailure(e: any): boolean {
+  const code = e?.cause?.code ?? e?.code;
+  if (
+    typeof code === "string" &&
+    (NETWORK_ERROR_CODES.includes(code) || code.startsWith("UND_ERR_"))
+  ) {
+    return true;
+  }
+  return e?.name === "TypeError" && e.message === "fetch failed";
+}
+
+const CONTEXT_LENGTH_PATTERN =
+  /context[_ ]length|maximum context|context window|prompt is too long|too many tokens|exceeds the maximum/i;
+
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  return undefined;
+}
+
+export function classifyStatus(
+  status: number,
+  body: string,
+): ProviderErrorCategory {
+  if (status === 429) return "rate_limit";
+  if (status === 401 || status === 403) return "auth";
+  if (status === 502 || status === 503 || status === 504 || status === 529)
+    return "overloaded";
+  if ((status === 400 || status === 413) && CONTEXT_LENGTH_PATTERN.test(body))
+    return "context_length";
+  if (/overloaded/i.test(body)) return "overloaded";
+  return "unknown";
+}
+
+export class ProviderError extends Error {
+  public readonly retryable: boolean;
+
+  constructor(
+    public readonly category: ProviderErrorCategory,
+    message: string,
+    public readonly status?: number,
+    public readonly retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = "ProviderError";
+    this.retryable = RETRYABLE.includes(category);
+  }
+
+  public static async fromResponse(response: Response): Promise<ProviderError> {
+    const body = await response.text().catch(() => "");
+    const category = classifyStatus(response.status, body);
+    return new ProviderError(
+      category,
+      `AI Provider error: ${response.status} (${category})${body ? ` ${body.slice(0, 500)}` : ""}`,
+      response.status,
+      parseRetryAfter(response.headers.get("retry-after")),
+    );
+  }
+
+  /** Errors reported inside a 200 body, as OpenRouter does for upstream failures. */
+  public static fromBody(error: any): ProviderError {
+    const status = typeof error?.code === "number" ? error.code : undefined;
+    const message = String(error?.message || "unknown error");
+    return new ProviderError(
+      status ? classifyStatus(status, message) : "unknown",
+      `AI Provider error: ${message}`,
+      status,
+    );
+  }
+
+  public static malformed(detail: string): ProviderError {
+    return new ProviderError(
+      "malformed_response",
+      `Malformed provider response: ${detail}`,
+    );
+  }
+
+  /**
+   * Classifies a failure of a provider call. Returns undefined for anything
+   * that is not one, such as a bug in an adapter, so callers rethrow it as is
+   * instead of retrying it as a connectivity problem.
+   */
+  public static from(error: unknown): ProviderError | undefined {
+    if (error instanceof ProviderError) return error;
+    const e = error as any;
+    // A timeout signal, such as the run's wall-clock budget, rejects with a TimeoutError.
+    if (e?.name === "AbortError" || e?.name === "TimeoutError") {
+      return new ProviderError("aborted", "Provider request aborted");
+    }
+    if (isNetworkFailure(e)) {
+      return new ProviderError(
+        "network",
+        `Network error: ${e?.cause?.code || e?.code || e.message}`,
+      );
+    }
+    if (e instanceof SyntaxError) {
+      return ProviderError.malformed(e.message);
+    }
+    return undefined;
+  }
+}
+
+export function toRunError(error: any, signal?: AbortSignal): RunError {
+  if (error instanceof BudgetExceededError) {
+    return {
+      category: "budget_exceeded",
+      message: error.message,
+      budget: {
+        name: error.budget,
+        limit: error.limit,
+        observed: error.observed,
+      },
+    };
+  }
+  if (error instanceof ProviderError) {
+    return {
+      category: error.category,
+      message: error.message,
+      status: error.status,
+    };
+  }
+  return {
+    category: signal?.aborted ? "aborted" : "engine",
+    message: error?.message || String(error),
+  };
+}
@@ -0,0 +1,168 @@
+import * as fs from "fs";
+import type { AIProvider, StreamEvent } from "./AIProvider.js";
+import { safeStringify, writeFile } from "../../plumbing/Plumbing.js";
+
+export type CassetteMode = "record" | "replay";
+
+export interface CassetteConfig {
+  mode: CassetteMode;
+  path: string;
+}
+
+interface Interaction {
+  request: any;
+  response: any;
+  events?: StreamEvent[];
+}
+
+interface Cassette {
+  version: 1;
+  interactions: Interaction[];
+}
+
+/**
+ * Reduces a request to the parts that determine the model's answer. The
+ * system prompt is left out on purpose: it embeds live telemetry (heap size,
+ * uptime) that differs between otherwise identical runs.
+ */
+export function normalizeRequest(params: any): any {
+  return {
+    model: params.model,
+    messages: (params.messages || []).map((m: any) => ({
+      role: m.role,
+      content: m.content,
+      tool_calls: m.tool_calls?.map((c: any) => ({
+        name: c.function.name,
+        arguments: c.function.arguments,
+      })),
+      tool_call_id: m.tool_call_id,
+      name: m.name,
+    })),
+    tools: (params.tools || []).map((t: any) => t.function?.name || t.name),
+  };
+}
+
+function describeMismatch(expected: any, actual: any): string {
+  if (expected.model !== actual.model) {
+    return `model '${actual.model}' != recorded '${expected.model}'`;
+  }
+  if (safeStringify(expected.tools) !== safeStringify(actual.tools)) {
+    return `tools [${actual.tools}] != recorded [${expected.tools}]`;
+  }
+  const length = Math.max(expected.messages.length, actual.messages.length);
+  for (let i = 0; i < length; i++) {
+    const e = safeStringify(expected.messages[i]);
+    const a = safeStringify(actual.messages[i]);
+    if (e !== a) {
+      return `message #${i} differs\n  recorded: ${e}\n  actual:   ${a}`;
+    }
+  }
+  return "unknown difference";
+}
+
+function loadCassette(cassettePath: string): Cassette {
+  if (!fs.existsSync(cassettePath)) {
+    throw new Error(`Cassette not found: ${cassettePath}`);
+  }
+  const cassette = JSON.parse(fs.readFileSync(cassettePath, "utf-8"));
+  if (cassette.version !== 1 || !Array.isArray(cassette.interactions)) {
+    throw new Error(`Unsupported cassette format: ${cassettePath}`);
+  }
+  return cassette;
+}
+
+export function createRecordingProvider(
+  inner: AIProvider,
+  cassettePath: string,
+): AIProvider {
+  const cassette: Cassette = { version: 1, interactions: [] };
+  const save = async (interaction: Interaction) => {
+    cassette.interactions.push(interaction);
+    await writeFile(cassettePath, safeStringify(cassette, 2));
+  };
+
+  return {
+    async createMessage(params: any, signal?: AbortSignal): Promise<any> {
+      const response = await inner.createMessage(params, signal);
+      await save({ request: normalizeRequest(params), response });
+      return response;
+    },
+
+    async createMessageStream(
+      params: any,
+      onUpdate: (e: StreamEvent) => void,
+      signal?: AbortSignal,
+    ): Promise<any> {
+      const events: StreamEvent[] = [];
+      const response = await inner.createMessageStream(
+        params,
+        (event) => {
+          events.push(event);
+          onUpdate(event);
+        },
+        signal,
+      );
+      await save({ request: normalizeRequest(params), response, events });
+      return response;
+    },
+  };
+}
+
+/**
+ * Serves recorded interactions in order. Any request that does not match the
+ * next recorded one throws, so a drifting prompt or loop change fails the run
+ * instead of silently replaying the wrong answer.
+ */
+export function createReplayProvider(cassettePath: string): AIProvider {
+  const cassette = loadCassette(cassettePath);
+  let cursor = 0;
+
+  const next = (params: any): Interaction => {
+    const interaction = cassette.interactions[cursor];
+    if (!interaction) {
+      throw new Error(
+        `Cassette exhausted: request #${cursor} has no recording in ${cassettePath}`,
+      );
+    }
+    const actual = normalizeRequest(params);
+    if (safeStringify(actual) !== safeStringify(interaction.request)) {
+      throw new Error(
+        `Cassette mismatch at request #${cursor} in ${cassettePath}: ${describeMismatch(interaction.request, actual)}`,
+      );
+    }
+    cursor++;
+    return interaction;
+  };
+
+  return {
+    async createMessage(params: any, signal?: AbortSignal): Promise<any> {
+      if (signal?.aborted) throw new Error("Request aborted");
+      return next(params).response;
+    },
+
+    async createMessageStream(
+      params: any,
+      onUpdate: (e: StreamEvent) => void,
+      signal?: AbortSignal,
+    ): Promise<any> {
+      const interaction = next(params);
+      const events: StreamEvent[] = interaction.events || [
+        { type: "content_delta", text: interaction.response.content || "" },
+      ];
+      for (const event of events) {
+        if (signal?.aborted) throw new Error("Stream aborted");
+        onUpdate(event);
+      }
+      return interaction.response;
+    },
+  };
+}
+
+export function withCassette(
+  provider: AIProvider,
+  cassette: CassetteConfig | undefined,
+): AIProvider {
+  if (!cassette) return provider;
+  if (cassette.mode === "replay") return createReplayProvider(cassette.path);
+  return createRecordingProvider(provider, cassette.path);
+}
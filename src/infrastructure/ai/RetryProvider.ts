@@ -0,0 +1,101 @@
+import type { AIProvider, StreamEvent } from "./AIProvider.js";
+import { ProviderError } from "./ProviderError.js";
+import { sleep } from "../../plumbing/Plumbing.js";
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+};
+
+// Full jitter: a uniform delay in [0, base * 2^attempt], capped. Retry-After wins when the server sends one.
+export function backoffDelay(
+  attempt: number,
+  policy: RetryPolicy,
+  retryAfterMs?: number,
+): number {
+  if (retryAfterMs !== undefined)
+    return Math.min(retryAfterMs, policy.maxDelayMs);
+  const ceiling = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** attempt,
+  );
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Provider middleware that normalizes provider failures into a `ProviderError`
+ * and retries the retryable categories; other errors pass through unchanged. A stream is only retried while it
+ * has not emitted anything, so callers never see duplicated deltas.
+ */
+export function withRetry(
+  provider: AIProvider,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+): AIProvider {
+  const attempt = async <T>(
+    call: () => Promise<T>,
+    canRetry: () => boolean,
+    signal?: AbortSignal,
+  ): Promise<T> => {
+    for (let n = 0; ; n++) {
+      try {
+        return await call();
+      } catch (e) {
+        const error = ProviderError.from(e);
+        if (!error) throw e;
+        if (
+          !error.retryable ||
+          n >= policy.maxRetries ||
+          !canRetry() ||
+          signal?.aborted
+        ) {
+          throw error;
+        }
+        const delay = backoffDelay(n, policy, error.retryAfterMs);
+        console.warn(
+          `[Provider] ${error.category} (attempt ${n + 1}/${policy.maxRetries + 1}), retrying in ${delay}ms`,
+        );
+        await sleep(delay, signal).catch(() => {
+          throw new ProviderError("aborted", "Provider request aborted");
+        });
+      }
+    }
+  };
+
+  return {
+    createMessage(params: any, signal?: AbortSignal): Promise<any> {
+      return attempt(
+        () => provider.createMessage(params, signal),
+        () => true,
+        signal,
+      );
+    },
+
+    createMessageStream(
+      params: any,
+      onUpdate: (e: StreamEvent) => void,
+      signal?: AbortSignal,
+    ): Promise<any> {
+      let emitted = false;
+      return attempt(
+        () =>
+          provider.createMessageStream(
+            params,
+            (event) => {
+              emitted = true;
+              onUpdate(event);
+            },
+            signal,
+          ),
+        () => !emitted,
+        signal,
+      );
+    },
+  };
+}
@@ -0,0 +1,54 @@
+import { RunBudget, RunTelemetry } from "../../domain/types.js";
+
+export class BudgetExceededError extends Error {
+  constructor(
+    public readonly budget: keyof RunBudget,
+    public readonly limit: number,
+    public readonly observed: number,
+  ) {
+    super(`Run budget exceeded: ${budget} (${observed} / ${limit})`);
+    this.name = "BudgetExceededError";
+  }
+}
+
+export interface BudgetState {
+  turns: number;
+  consecutiveBreaches: number;
+}
+
+/** Throws on the first exhausted budget. Unset limits are unbounded. */
+export function enforceBudget(
+  budget: RunBudget,
+  state: BudgetState,
+  run: RunTelemetry,
+): void {
+  const tokens =
+    (run.usage?.promptTokens || 0) + (run.usage?.completionTokens || 0);
+  const checks: [keyof RunBudget, number][] = [
+    ["maxTurns", state.turns],
+    ["maxConsecutiveBreaches", state.consecutiveBreaches],
+    ["maxDurationMs", Date.now() - run.startedAt],
+    ["maxTokens", tokens],
+  ];
+  for (const [name, observed] of checks) {
+    const limit = budget[name];
+    if (limit !== undefined && observed >= limit) {
+      throw new BudgetExceededError(name, limit, observed);
+    }
+  }
+}
+
+/**
+ * The caller's signal, also aborted when the wall-clock budget runs out, so
+ * provider and tool calls in flight stop then rather than at the next turn.
+ */
+export function budgetSignal(
+  budget: RunBudget,
+  run: RunTelemetry,
+  signal?: AbortSignal,
+): AbortSignal | undefined {
+  if (budget.maxDurationMs === undefined) return signal;
+  const remaining = run.startedAt + budget.maxDurationMs - Date.now();
+  const timeout = AbortSignal.timeout(Math.max(0, remaining));
+  return signal ? AbortSignal.any([signal, timeout]) : timeout;
+}
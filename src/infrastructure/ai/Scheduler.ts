@@ -1,29 +1,25 @@
-import { DbLayer } from "../DbPool.js";
+import { getLayerPriority } from "../LayerRules.js";
 
 export interface DiffProposal {
     id: string;
     agentId: string;
-    layer: DbLayer;
+    layer: string;
+    root: string; // Workspace whose layer rules rank the proposal
     affectedFiles: string[];
+    writtenFiles: string[];
     dependencies: string[]; // List of proposal IDs
     status: "pending" | "approved" | "applied" | "blocked" | "rejected";
     timestamp: number;
     riskScore: number; // 0-100
 }
 
-const LAYER_SCORE: Record<DbLayer, number> = {
-    domain: 100,
-    infrastructure: 50,
-    ui: 10,
-    plumbing: 5,
-};
-
 export class DiffScheduler {
     private proposals = new Map<string, DiffProposal>();
 
-    public propose(proposal: Omit<DiffProposal, "status" | "timestamp">): string {
+    public propose(proposal: Omit<DiffProposal, "status" | "timestamp" | "writtenFiles">): string {
         const fullProposal: DiffProposal = {
             ...proposal,
+            writtenFiles: [],
             status: "pending",
             timestamp: Date.now(),
         };
@@ -41,7 +37,7 @@ export class DiffScheduler {
             const higherPrioConflicts = Array.from(this.proposals.values()).filter(other =>
                 other.id !== p.id &&
                 other.status !== "applied" &&
-                LAYER_SCORE[other.layer] > LAYER_SCORE[p.layer] &&
+                getLayerPriority(other.layer, other.root) > getLayerPriority(p.layer, p.root) &&
                 other.affectedFiles.some(f => p.affectedFiles.includes(f))
             );
 
@@ -59,9 +55,9 @@ export class DiffScheduler {
         const executable = Array.from(this.proposals.values())
             .filter(p => p.agentId === agentId && p.status === "pending")
             .sort((a, b) => {
-                // Priority: Layer Score > Timestamp (older first)
-                if (LAYER_SCORE[a.layer] !== LAYER_SCORE[b.layer]) {
-                    return LAYER_SCORE[b.layer] - LAYER_SCORE[a.layer];
+                // Priority: Layer priority from the layer rules > Timestamp (older first)
+                if (getLayerPriority(a.layer, a.root) !== getLayerPriority(b.layer, b.root)) {
+                    return getLayerPriority(b.layer, b.root) - getLayerPriority(a.layer, a.root);
                 }
                 return a.timestamp - b.timestamp;
             });
@@ -77,6 +73,22 @@ export class DiffScheduler {
         }
     }
 
+    // A proposal stays at the head of the queue until every one of its files has been written.
+    public recordWrites(id: string, files: string[]) {
+        const p = this.proposals.get(id);
+        if (!p) return;
+        p.writtenFiles = Array.from(new Set([...p.writtenFiles, ...files]));
+        if (p.affectedFiles.every(f => p.writtenFiles.includes(f))) this.updateStatus(id, "applied");
+    }
+
+    // A new plan replaces the agent's unfinished ones, so files it dropped cannot hold up the queue.
+    public withdraw(agentId: string) {
+        for (const p of this.proposals.values()) {
+            if (p.agentId === agentId && (p.status === "pending" || p.status === "blocked")) p.status = "rejected";
+        }
+        this.recalculateDependencies();
+    }
+
     public getContext() {
         return Array.from(this.proposals.values()).map(p => ({
             id: p.id,
@@ -0,0 +1,216 @@
+import { orchestrator, AgentStream, AgentTask } from "./Orchestrator.js";
+import { dbPool } from "../DbPool.js";
+import { getSubagentConcurrency } from "../Config.js";
+import {
+  StreamWorktree,
+  createStreamWorktree,
+  mergeStreamWorktree,
+  removeStreamWorktree,
+} from "./Worktrees.js";
+import { disposeTypeChecker } from "../TypeChecker.js";
+import { forgetDependencyGraph } from "../DependencyGraph.js";
+import { Semaphore } from "../../plumbing/Plumbing.js";
+import { Callbacks, RunTelemetry } from "../../domain/types.js";
+
+export interface SubagentEngine {
+  chatLoop(
+    messages: any[],
+    run: RunTelemetry,
+    callbacks: Callbacks,
+    signal?: AbortSignal,
+  ): Promise<any>;
+}
+
+export interface StreamReport {
+  stream: AgentStream;
+  status: "completed" | "failed";
+  tasks: { task: AgentTask; status: "completed" | "failed"; result: string }[];
+  branch?: string;
+  mergedFiles?: string[];
+  conflicts?: string[];
+}
+
+const RESULT_PREVIEW_CHARS = 2000;
+
+// One cap per nesting level, shared by every runner on it: a running stream keeps its slot
+// while it waits for its own subagents, so a single cap across levels could starve them forever.
+const slots = new Map<number, Semaphore>();
+function getSlots(depth: number): Semaphore {
+  if (!slots.has(depth))
+    slots.set(depth, new Semaphore(getSubagentConcurrency()));
+  return slots.get(depth);
+}
+
+/**
+ * Executes the pending tasks of spawned agent streams. Each stream gets its
+ * own child engine (keyed by the stream id) and, inside a git repository, its
+ * own worktree and branch; it works through its tasks in order and is merged
+ * back into the parent's tree on success. Streams run in parallel up to the
+ * configured concurrency cap, applied per nesting level.
+ */
+export class SubagentRunner {
+  private readonly inFlight = new Map<string, Promise<StreamReport>>();
+  // Stops every started stream when the parent run ends without collecting them.
+  private controller = new AbortController();
+
+  constructor(
+    private readonly spawnEngine: (
+      stream: AgentStream,
+      workingDir: string,
+    ) => SubagentEngine,
+    private readonly parentDir: string,
+    private readonly isolate: boolean,
+    /** Nesting level of the streams this runner starts; 0 for the top-level run's. */
+    private readonly depth = 0,
+  ) {}
+
+  /** `parent` is the run and tool call the stream's merged files are journaled under. */
+  public start(
+    stream: AgentStream,
+    signal?: AbortSignal,
+    parent?: { runId: string; toolCallId: string },
+  ): void {
+    if (this.inFlight.has(stream.id)) return;
+    const streamSignal = signal
+      ? AbortSignal.any([signal, this.controller.signal])
+      : this.controller.signal;
+    this.inFlight.set(stream.id, this.runStream(stream, streamSignal, parent));
+  }
+
+  /** Aborts every started stream and waits until they have stopped; their reports are dropped. */
+  public async cancel(): Promise<void> {
+    if (this.inFlight.size === 0) return;
+    this.controller.abort();
+    await Promise.allSettled(this.inFlight.values());
+    this.inFlight.clear();
+    this.controller = new AbortController();
+  }
+
+  public hasPending(): boolean {
+    return this.inFlight.size > 0;
+  }
+
+  /** Waits for every started stream and returns one consolidated report for the parent. */
+  public async collect(): Promise<string> {
+    const reports = await Promise.all(this.inFlight.values());
+    this.inFlight.clear();
+    if (reports.length === 0) return "No subagent streams are running.";
+    return reports.map(formatReport).join("\n\n");
+  }
+
+  private async runStream(
+    stream: AgentStream,
+    signal?: AbortSignal,
+    parent?: { runId: string; toolCallId: string },
+  ): Promise<StreamReport> {
+    const release = await getSlots(this.depth).acquire();
+    const report: StreamReport = { stream, status: "completed", tasks: [] };
+    let worktree: StreamWorktree | null = null;
+    try {
+      const tasks = (await orchestrator.getStreamTasks(stream.id)).filter(
+        (t) => t.status === "pending",
+      );
+      if (this.isolate) {
+        worktree = await createStreamWorktree(stream, this.parentDir);
+      }
+      const engine = this.spawnEngine(
+        stream,
+        worktree?.workingDir ?? this.parentDir,
+      );
+      const messages: any[] = [];
+
+      for (const task of tasks) {
+        if (signal?.aborted) {
+          report.tasks.push({ task, status: "failed", result: "Aborted" });
+          await orchestrator.updateTaskStatus(task.id, "failed", "Aborted");
+          continue;
+        }
+
+        await orchestrator.updateTaskStatus(task.id, "running");
+        messages.push({
+          role: "user",
+          content: `Stream focus: ${stream.focus}\nTask: ${task.description}`,
+        });
+        const run: RunTelemetry = {
+          runId: `run_${stream.id}_${task.id}`,
+          startedAt: Date.now(),
+        };
+
+        try {
+          const result = String(
+            await engine.chatLoop(messages, run, {}, signal),
+          );
+          messages.push({ role: "assistant", content: result });
+          report.tasks.push({ task, status: "completed", result });
+          await orchestrator.updateTaskStatus(task.id, "completed", result);
+        } catch (e: any) {
+          report.tasks.push({ task, status: "failed", result: e.message });
+          await orchestrator.updateTaskStatus(task.id, "failed", e.message);
+        }
+      }
+
+      if (report.tasks.some((t) => t.status === "failed")) {
+        report.status = "failed";
+      } else if (worktree) {
+        const merge = await mergeStreamWorktree(
+          worktree,
+          this.parentDir,
+          `Subagent stream ${stream.id}: ${stream.focus}`,
+          parent,
+        );
+        report.mergedFiles = merge.changedFiles;
+        if (!merge.merged) {
+          report.status = "failed";
+          report.conflicts = merge.conflicts;
+        }
+      }
+
+      if (report.status === "failed") dbPool.rollbackWork(stream.id);
+      else await dbPool.commitWork(stream.id);
+    } catch (e: any) {
+      report.status = "failed";
+      dbPool.rollbackWork(stream.id);
+      console.error(`[Subagents] Stream ${stream.id} failed`, e);
+    } finally {
+      if (worktree) {
+        // Keep the branch of a failed stream so its work can be inspected or merged by hand.
+        const keepBranch = report.status === "failed";
+        if (keepBranch) report.branch = worktree.branch;
+        await removeStreamWorktree(worktree, keepBranch).catch((e) =>
+          console.error(`[Subagents] Worktree cleanup failed`, e),
+        );
+        // Warm caches keyed by the worktree path would otherwise outlive it.
+        disposeTypeChecker(worktree.workingDir);
+        forgetDependencyGraph(worktree.workingDir);
+      }
+      release();
+    }
+
+    await orchestrator.updateStreamStatus(stream.id, report.status);
+    return report;
+  }
+}
+
+function formatReport(report: StreamReport): string {
+  const lines = [
+    `Subagent stream '${report.stream.id}' (${report.stream.focus}): ${report.status.toUpperCase()}`,
+  ];
+  for (const t of report.tasks) {
+    const result =
+      t.result.length > RESULT_PREVIEW_CHARS
+        ? `${t.result.slice(0, RESULT_PREVIEW_CHARS)}…`
+        : t.result;
+    lines.push(`- [${t.status}] ${t.task.description}\n  ${result}`);
+  }
+  if (report.tasks.length === 0) lines.push("- No pending tasks were found.");
+  if (report.conflicts?.length) {
+    lines.push(
+      `Merge back into the parent tree CONFLICTED; the parent tree was left unchanged. Conflicting paths:`,
+      ...report.conflicts.map((p) => `  - ${p}`),
+    );
+  } else if (report.mergedFiles?.length) {
+    lines.push(`Merged into the parent tree: ${report.mergedFiles.join(", ")}`);
+  }
+  if (report.branch) lines.push(`Work preserved on branch '${report.branch}'.`);
+  return lines.join("\n");
+}
@@ -0,0 +1,168 @@
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { AgentStream } from "./Orchestrator.js";
+import { journalChanges } from "../FileJournal.js";
+import { gitStatus, runGit } from "../../plumbing/Plumbing.js";
+
+export interface StreamWorktree {
+  streamId: string;
+  /** Checkout the worktree was created from; git housekeeping runs there. */
+  repoRoot: string;
+  /** Root of the worktree checkout. */
+  root: string;
+  /** The stream's working directory inside the worktree (mirrors the parent's offset from its repo root). */
+  workingDir: string;
+  branch: string;
+  baseCommit: string;
+}
+
+export interface MergeResult {
+  merged: boolean;
+  changedFiles: string[];
+  conflicts: string[];
+}
+
+const ENGINE_IDENTITY = [
+  "-c",
+  "user.name=Engine Subagent",
+  "-c",
+  "user.email=engine@localhost",
+];
+
+/**
+ * Creates an isolated worktree and branch for a stream, based on the parent
+ * tree's current state (uncommitted tracked changes included, via
+ * `git stash create`). Returns null when the parent is not inside a git
+ * repository with at least one commit; the stream then shares the parent tree.
+ */
+export async function createStreamWorktree(
+  stream: AgentStream,
+  parentDir: string,
+): Promise<StreamWorktree | null> {
+  let repoRoot: string;
+  let baseCommit: string;
+  try {
+    repoRoot = (
+      await runGit(["rev-parse", "--show-toplevel"], parentDir)
+    ).trim();
+    baseCommit =
+      (await runGit(["stash", "create"], repoRoot)).trim() ||
+      (await runGit(["rev-parse", "HEAD"], repoRoot)).trim();
+  } catch {
+    return null;
+  }
+
+  const commonDir = path.resolve(
+    repoRoot,
+    (await runGit(["rev-parse", "--git-common-dir"], repoRoot)).trim(),
+  );
+  const root = path.join(commonDir, "engine-worktrees", stream.id);
+  const branch = `engine/${stream.id}`;
+  await runGit(["worktree", "add", "-b", branch, root, baseCommit], repoRoot);
+
+  return {
+    streamId: stream.id,
+    repoRoot,
+    root,
+    workingDir: path.join(root, path.relative(repoRoot, parentDir)),
+    branch,
+    baseCommit,
+  };
+}
+
+/**
+ * Commits the stream's work on its branch and applies the net diff to the
+ * parent tree. The patch is checked before anything is written, so a
+ * conflicting merge leaves the parent tree untouched. With `journal`, the
+ * merged files are journaled under that run, so reverting it undoes them.
+ */
+export async function mergeStreamWorktree(
+  worktree: StreamWorktree,
+  parentDir: string,
+  summary: string,
+  journal?: { runId: string; toolCallId: string },
+): Promise<MergeResult> {
+  if ((await gitStatus(worktree.root)) !== "Clean.") {
+    await runGit(["add", "-A"], worktree.root);
+    await runGit(
+      [...ENGINE_IDENTITY, "commit", "-q", "-m", summary],
+      worktree.root,
+    );
+  }
+
+  const changedFiles = (
+    await runGit(
+      // Without rename detection a moved file lists its old path as well.
+      ["diff", "--name-only", "--no-renames", worktree.baseCommit, "HEAD"],
+      worktree.root,
+    )
+  )
+    .split("\n")
+    .filter(Boolean);
+  if (changedFiles.length === 0) {
+    return { merged: true, changedFiles, conflicts: [] };
+  }
+
+  const patch = await runGit(
+    ["diff", "--binary", worktree.baseCommit, "HEAD"],
+    worktree.root,
+  );
+  const parentRoot = (
+    await runGit(["rev-parse", "--show-toplevel"], parentDir)
+  ).trim();
+  const patchFile = path.join(
+    os.tmpdir(),
+    `engine-${worktree.streamId}-${Date.now()}.patch`,
+  );
+  await fs.writeFile(patchFile, patch);
+
+  try {
+    try {
+      await runGit(["apply", "--check", patchFile], parentRoot);
+    } catch (e: any) {
+      return {
+        merged: false,
+        changedFiles,
+        conflicts: parseConflicts(e.message),
+      };
+    }
+    const apply = async () => {
+      await runGit(["apply", patchFile], parentRoot);
+    };
+    if (journal) {
+      const files = changedFiles.map((f) => path.join(parentRoot, f));
+      await journalChanges(files, apply, journal);
+    } else {
+      await apply();
+    }
+    return { merged: true, changedFiles, conflicts: [] };
+  } finally {
+    await fs.rm(patchFile, { force: true });
+  }
+}
+
+/** Removes the worktree checkout. The branch is kept when asked, e.g. to inspect a failed merge. */
+export async function removeStreamWorktree(
+  worktree: StreamWorktree,
+  keepBranch: boolean,
+): Promise<void> {
+  const repoDir = worktree.repoRoot;
+  await runGit(["worktree", "remove", "--force", worktree.root], repoDir).catch(
+    () => fs.rm(worktree.root, { recursive: true, force: true }),
+  );
+  await runGit(["worktree", "prune"], repoDir).catch(() => {});
+  if (!keepBranch) {
+    await runGit(["branch", "-D", worktree.branch], repoDir).catch(() => {});
+  }
+}
+
+// `git apply --check` reports e.g. "error: patch failed: src/a.ts:12" or "error: src/b.ts: already exists in working directory".
+function parseConflicts(stderr: string): string[] {
+  const paths = new Set<string>();
+  for (const line of stderr.split("\n")) {
+    const match = line.match(/^error: (?:patch failed: )?(.+?):(?:\d+$| )/);
+    if (match) paths.add(match[1]);
+  }
+  return paths.size > 0 ? Array.from(paths) : [stderr.trim()];
+}
@@ -7,8 +7,21 @@ import {
   AutomationService,
   SessionMetadata,
   ProviderType,
+  UsageReport,
+  RunBudget,
+  SessionSnapshot,
+  DryRunResult,
 } from "../../domain/types.js";
 import { AIProvider } from "../ai/AIProvider.js";
+import { CassetteConfig } from "../ai/ReplayProvider.js";
+import { toRunError } from "../ai/ProviderError.js";
+import { FileOverlay } from "../FileOverlay.js";
+import {
+  JournaledRun,
+  RevertResult,
+  getJournaledRuns,
+  revertRun,
+} from "../FileJournal.js";
 
 export interface RuntimeConfigPort {
   getAiProvider(): ProviderType;
@@ -16,18 +29,29 @@ export interface RuntimeConfigPort {
   getCliConfig(): Record<string, unknown>;
   getModel(): string;
   getLlmFast(): string;
+  getStageModels(): Record<string, string>;
+  getStreaming(): boolean;
+  getRunBudget(): RunBudget;
+  getCassette(): CassetteConfig | undefined;
 }
 
 export interface RuntimeSessionStorePort {
   getSessions(): Promise<Record<string, any[]>>;
   saveSessions(sessions: Record<string, any[]>): Promise<void>;
+  appendMessage(sessionId: string, message: any): Promise<void>;
   getSessionMetadata(): Promise<SessionMetadata[]>;
   saveSessionMetadata(metadata: SessionMetadata[]): Promise<void>;
   getCurrentSessionId(): Promise<string>;
   setCurrentSessionId(id: string): Promise<void>;
+  deleteSession(id: string): Promise<void>;
+  getSessionRuns(id: string): Promise<RunTelemetry[]>;
+  importSession(id: string, snapshot: SessionSnapshot): Promise<void>;
+  saveRunUsage(sessionId: string, run: RunTelemetry): Promise<void>;
+  getUsageReport(): Promise<UsageReport>;
 }
 
 export interface RuntimeOptions<TAutomation extends AutomationService> {
+  workingDir?: string;
   config: RuntimeConfigPort;
   sessionStore: RuntimeSessionStorePort;
   toolRegistrar: (automation: TAutomation) => void;
@@ -41,6 +65,7 @@ export class Orchestrator<TAutomation extends AutomationService> {
   private messages: any[] = [];
   private readonly initPromise: Promise<void>;
   private readonly processingMutex = new Mutex("ProcessingLock");
+  private persistQueue: Promise<void> = Promise.resolve();
 
   constructor(private readonly options: RuntimeOptions<TAutomation>) {
     this.options.toolRegistrar(this.options.automationService);
@@ -54,39 +79,60 @@ export class Orchestrator<TAutomation extends AutomationService> {
     this.messages = historyMap[this.currentSessionId] || [];
   }
 
+  /** Aborting `signal` stops the run and restores the files it changed. */
   public async handleMessage(
     text: string,
     callbacks?: Callbacks,
+    signal?: AbortSignal,
   ): Promise<string> {
     const unlock = await this.processingMutex.acquire(100000);
     try {
       await this.initPromise;
-      if (!this.provider) {
-        const key = this.options.config.getApiKey();
-        if (!key) return "Please configure your API key.";
-        this.provider = this.options.providerFactory(
-          this.options.config.getAiProvider(),
-          key,
-        );
-      }
+      if (!this.ensureProvider()) return "Please configure your API key.";
 
       const run: RunTelemetry = {
         runId: `run_${Date.now()}`,
         startedAt: Date.now(),
       };
 
-      this.messages.push({
+      this.appendMessage({
         role: "user",
         content: text,
         timestamp: Date.now(),
       });
 
-      const engine = new Engine(this.provider);
-      const response = await engine.chatLoop(
-        this.messages,
-        run,
-        callbacks || {},
-      );
+      const engine = this.createEngine();
+      let response: any;
+      try {
+        response = await engine.chatLoop(
+          this.messages,
+          run,
+          {
+            ...callbacks,
+            onMessage: (message) => {
+              this.persistMessage(message);
+              callbacks?.onMessage?.(message);
+            },
+          },
+          signal,
+        );
+        this.appendMessage({
+          role: "assistant",
+          content: response,
+          timestamp: Date.now(),
+        });
+        run.success = true;
+      } catch (error) {
+        run.success = false;
+        run.error = toRunError(error);
+        throw error;
+      } finally {
+        run.completedAt = Date.now();
+        await this.persistQueue;
+        await this.options.sessionStore
+          .saveRunUsage(this.currentSessionId, run)
+          .catch((e) => console.error("[Runtime] Usage save failed", e));
+      }
 
       processSessionEnd(this.currentSessionId, this.messages).catch(() => {});
 
@@ -96,6 +142,103 @@ export class Orchestrator<TAutomation extends AutomationService> {
     }
   }
 
+  /**
+   * Runs a request against an in-memory overlay of the workspace and reports
+   * what it would change. Neither the workspace nor the session history is
+   * modified; only the run's token usage is recorded.
+   */
+  public async dryRun(
+    text: string,
+    callbacks?: Callbacks,
+    signal?: AbortSignal,
+  ): Promise<DryRunResult> {
+    const unlock = await this.processingMutex.acquire(100000);
+    try {
+      await this.initPromise;
+      if (!this.ensureProvider())
+        throw new Error("Please configure your API key.");
+
+      const run: RunTelemetry = {
+        runId: `run_${Date.now()}`,
+        startedAt: Date.now(),
+      };
+      const overlay = new FileOverlay();
+      const messages = [
+        ...this.messages,
+        { role: "user", content: text, timestamp: Date.now() },
+      ];
+      let response: any;
+      try {
+        response = await this.createEngine(overlay).chatLoop(
+          messages,
+          run,
+          callbacks || {},
+          signal,
+        );
+        run.success = true;
+      } catch (error) {
+        run.success = false;
+        run.error = toRunError(error);
+        throw error;
+      } finally {
+        run.completedAt = Date.now();
+        await this.options.sessionStore
+          .saveRunUsage(this.currentSessionId, run)
+          .catch((e) => console.error("[Runtime] Usage save failed", e));
+      }
+
+      const workingDir = this.options.workingDir || process.cwd();
+      return {
+        response: renderMessage(response),
+        plans: overlay.getPlans(),
+        patch: await overlay.toPatch(workingDir),
+        files: overlay.getChangedFiles(),
+      };
+    } finally {
+      unlock();
+    }
+  }
+
+  // Replay cassettes serve responses offline, so they need no API key.
+  private ensureProvider(): boolean {
+    if (this.provider) return true;
+    const key = this.options.config.getApiKey();
+    const replaying = this.options.config.getCassette()?.mode === "replay";
+    if (!key && !replaying) return false;
+    this.provider = this.options.providerFactory(
+      this.options.config.getAiProvider(),
+      key,
+    );
+    return true;
+  }
+
+  private createEngine(overlay?: FileOverlay): Engine {
+    return new Engine(this.provider!, {
+      workingDir: this.options.workingDir,
+      overlay,
+      stream: this.options.config.getStreaming(),
+      budget: this.options.config.getRunBudget(),
+      models: {
+        main: this.options.config.getModel(),
+        fast: this.options.config.getLlmFast(),
+        stages: this.options.config.getStageModels(),
+      },
+    });
+  }
+
+  private appendMessage(message: any) {
+    this.messages.push(message);
+    this.persistMessage(message);
+  }
+
+  // Writes are chained so rows land in production order even though callers don't await them.
+  private persistMessage(message: any) {
+    const sessionId = this.currentSessionId;
+    this.persistQueue = this.persistQueue
+      .then(() => this.options.sessionStore.appendMessage(sessionId, message))
+      .catch((e) => console.error("[Runtime] Message persist failed", e));
+  }
+
   public async createSession(): Promise<string> {
     await this.initPromise;
     this.currentSessionId = `session_${Date.now()}`;
@@ -109,6 +252,70 @@ export class Orchestrator<TAutomation extends AutomationService> {
     return await this.options.sessionStore.getSessionMetadata();
   }
 
+  /** Resolves a full session id or a unique id prefix. */
+  public async resolveSessionId(idOrPrefix: string): Promise<string> {
+    await this.initPromise;
+    const ids = (await this.options.sessionStore.getSessionMetadata()).map(
+      (m) => m.id,
+    );
+    if (ids.includes(idOrPrefix)) return idOrPrefix;
+    const matches = ids.filter((id) => id.startsWith(idOrPrefix));
+    if (matches.length === 1) return matches[0];
+    if (matches.length === 0)
+      throw new Error(`No session matches '${idOrPrefix}'.`);
+    throw new Error(
+      `Ambiguous session prefix '${idOrPrefix}': ${matches.join(", ")}`,
+    );
+  }
+
+  public async setSessionPinned(id: string, isPinned: boolean): Promise<void> {
+    await this.updateSessionMetadata(id, { isPinned });
+  }
+
+  public async renameSession(id: string, title: string): Promise<void> {
+    await this.updateSessionMetadata(id, { title });
+  }
+
+  private async updateSessionMetadata(
+    id: string,
+    patch: Partial<SessionMetadata>,
+  ): Promise<void> {
+    await this.initPromise;
+    const metadata = await this.options.sessionStore.getSessionMetadata();
+    const entry = metadata.find((m) => m.id === id);
+    if (!entry) throw new Error(`Session '${id}' has no saved history.`);
+    Object.assign(entry, patch);
+    await this.options.sessionStore.saveSessionMetadata(metadata);
+  }
+
+  /** Deletes a session; deleting the active one switches to a fresh session. */
+  public async deleteSession(id: string): Promise<void> {
+    await this.initPromise;
+    await this.persistQueue;
+    await this.options.sessionStore.deleteSession(id);
+    if (id === this.currentSessionId) await this.createSession();
+  }
+
+  public async getSessionSnapshot(id: string): Promise<SessionSnapshot> {
+    await this.initPromise;
+    await this.persistQueue;
+    const store = this.options.sessionStore;
+    const metadata = (await store.getSessionMetadata()).find(
+      (m) => m.id === id,
+    );
+    if (!metadata) throw new Error(`Session '${id}' has no saved history.`);
+    const messages = (await store.getSessions())[id] || [];
+    return { metadata, messages, runs: await store.getSessionRuns(id) };
+  }
+
+  /** Imports a snapshot under a fresh id so it never overwrites a local session. */
+  public async importSession(snapshot: SessionSnapshot): Promise<string> {
+    await this.initPromise;
+    const id = `session_${Date.now()}`;
+    await this.options.sessionStore.importSession(id, snapshot);
+    return id;
+  }
+
   public async loadSession(id: string): Promise<string> {
     await this.initPromise;
     this.currentSessionId = id;
@@ -118,6 +325,44 @@ export class Orchestrator<TAutomation extends AutomationService> {
     return id;
   }
 
+  public async getUndoableRuns(): Promise<JournaledRun[]> {
+    return await getJournaledRuns();
+  }
+
+  /** Reverts the file changes of a run (full id or unique prefix), or of the latest run when omitted. */
+  public async undoRun(runIdOrPrefix?: string): Promise<RevertResult> {
+    const unlock = await this.processingMutex.acquire(100000);
+    try {
+      const runs = await getJournaledRuns();
+      if (runs.length === 0) throw new Error("No file changes to undo.");
+      if (!runIdOrPrefix) return await revertRun(runs[0].runId);
+
+      const exact = runs.find((r) => r.runId === runIdOrPrefix);
+      const matches = exact
+        ? [exact]
+        : runs.filter((r) => r.runId.startsWith(runIdOrPrefix));
+      if (matches.length === 0)
+        throw new Error(`No undoable run matches '${runIdOrPrefix}'.`);
+      if (matches.length > 1)
+        throw new Error(
+          `Ambiguous run prefix '${runIdOrPrefix}': ${matches.map((r) => r.runId).join(", ")}`,
+        );
+      return await revertRun(matches[0].runId);
+    } finally {
+      unlock();
+    }
+  }
+
+  public async getUsageReport(): Promise<UsageReport> {
+    await this.initPromise;
+    return await this.options.sessionStore.getUsageReport();
+  }
+
+  /** Resolves once every produced message has been written to the session store. */
+  public async flush(): Promise<void> {
+    await this.persistQueue;
+  }
+
   public getMessages() {
     return this.messages;
   }
@@ -1,9 +1,29 @@
-import { registerTool, getStringArg } from "./ToolRegistry.js";
-import { exec } from "child_process";
-import { promisify } from "util";
+import { registerTool, getStringArg, ToolContext } from "./ToolRegistry.js";
+import { checkCommand, restrictEnv } from "./CommandPolicy.js";
 import { Automation } from "../Automation.js";
+import { getCommandPolicy, getDb, Schema } from "../Config.js";
+import { CommandResult, spawnCommand } from "../../plumbing/Plumbing.js";
 
-const execAsync = promisify(exec);
+type AuditEntry = Omit<Schema["command_audit"], "id">;
+
+// Auditing must never fail the command it records.
+async function recordAudit(entry: AuditEntry) {
+  try {
+    const db = await getDb();
+    await db.insertInto("command_audit").values(entry).execute();
+  } catch (e) {
+    console.error("[Audit] Failed to record command", e);
+  }
+}
+
+function formatResult(result: CommandResult): string {
+  let output =
+    result.stdout + (result.stderr ? `\nstderr: ${result.stderr}` : "");
+  if (result.truncated) {
+    output += `\n[output truncated after ${result.outputBytes} bytes; process killed]`;
+  }
+  return output;
+}
 
 export function registerToolDefinitions(
   automation: Automation,
@@ -11,16 +31,72 @@ export function registerToolDefinitions(
 ) {
   registerTool({
     name: "run_command",
-    description: "Execute a shell command. Subject to security audits.",
+    description:
+      "Execute a shell command. Subject to the command policy, a timeout and an output cap; every run is audited.",
+    mutates: true,
     input_schema: {
       type: "object",
       properties: { command: { type: "string" } },
       required: ["command"],
     },
-    execute: async (args) => {
+    execute: async (args, _onProgress, signal, context?: ToolContext) => {
       const command = getStringArg(args, "command");
-      const { stdout, stderr } = await execAsync(command, { cwd: workingDir });
-      return stdout + (stderr ? `\nstderr: ${stderr}` : "");
+      if (context?.overlay) {
+        return `Dry run: command not executed: ${command}. Its effects are not part of the dry-run workspace.`;
+      }
+
+      const policy = getCommandPolicy();
+      const cwd = context?.workingDir ?? workingDir;
+      const audit: AuditEntry = {
+        runId: context?.runId ?? null,
+        toolCallId: context?.toolCallId ?? null,
+        streamId: context?.streamId ?? null,
+        command,
+        cwd,
+        decision: "allowed",
+        reason: null,
+        exitCode: null,
+        timedOut: 0,
+        aborted: 0,
+        outputBytes: 0,
+        durationMs: 0,
+        startedAt: Date.now(),
+      };
+
+      const refusal = checkCommand(command, policy);
+      if (refusal) {
+        await recordAudit({ ...audit, decision: "denied", reason: refusal });
+        throw new Error(`Command refused by policy: ${refusal}`);
+      }
+
+      const result = await spawnCommand(command, {
+        cwd,
+        env: policy.stripSecrets ? restrictEnv(process.env) : process.env,
+        timeoutMs: policy.timeoutMs,
+        maxOutputBytes: policy.maxOutputBytes,
+        signal,
+      });
+      await recordAudit({
+        ...audit,
+        exitCode: result.exitCode,
+        timedOut: result.timedOut ? 1 : 0,
+        aborted: result.aborted ? 1 : 0,
+        outputBytes: result.outputBytes,
+        durationMs: result.durationMs,
+      });
+
+      if (result.aborted) throw new Error(`Command aborted: ${command}`);
+      if (result.timedOut) {
+        throw new Error(
+          `Command timed out after ${policy.timeoutMs}ms: ${command}\n${formatResult(result)}`,
+        );
+      }
+      if (result.exitCode !== 0 && !result.truncated) {
+        throw new Error(
+          `Command failed with exit code ${result.exitCode}: ${command}\n${formatResult(result)}`,
+        );
+      }
+      return formatResult(result);
     },
   });
 }
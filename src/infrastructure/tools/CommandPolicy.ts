@@ -0,0 +1,426 @@
+export interface CommandPolicy {
+  /** Regexes; when non-empty, a command must match at least one. */
+  allow: string[];
+  /** Regexes; a matching command is refused. */
+  deny: string[];
+  /** Executables refused anywhere in the command line, by basename. */
+  blockedBinaries: string[];
+  /** Only known read-only executables, and no output redirection to files. */
+  readOnly: boolean;
+  timeoutMs: number;
+  maxOutputBytes: number;
+  /** Run without secret-looking variables (keys, tokens, passwords) in the environment. */
+  stripSecrets: boolean;
+}
+
+export const DEFAULT_COMMAND_POLICY: CommandPolicy = {
+  allow: [],
+  deny: ["\\brm\\s+-[a-zA-Z]*[rf][a-zA-Z]*\\s+(/|~)(\\s|$)", ":\\(\\)\\s*\\{"],
+  blockedBinaries: [
+    "sudo",
+    "su",
+    "doas",
+    "shutdown",
+    "reboot",
+    "halt",
+    "poweroff",
+    "mkfs",
+    "dd",
+  ],
+  readOnly: false,
+  timeoutMs: 60000,
+  maxOutputBytes: 1024 * 1024,
+  stripSecrets: false,
+};
+
+const READ_ONLY_BINARIES = new Set([
+  "ls",
+  "cat",
+  "head",
+  "tail",
+  "wc",
+  "grep",
+  "rg",
+  "find",
+  "tree",
+  "pwd",
+  "echo",
+  "stat",
+  "file",
+  "diff",
+  "sort",
+  "uniq",
+  "cut",
+  "which",
+  "git",
+]);
+
+const READ_ONLY_GIT = new Set([
+  "status",
+  "diff",
+  "log",
+  "show",
+  "blame",
+  "grep",
+  "ls-files",
+  "rev-parse",
+]);
+
+// Options git accepts before a read-only subcommand; anything else, such as `-c` or `--config-env`, can run programs.
+const READ_ONLY_GIT_GLOBALS = new Set([
+  "--no-pager",
+  "-P",
+  "--no-optional-locks",
+  "--literal-pathspecs",
+]);
+
+// Wrappers whose first argument is the real executable.
+const PREFIX_COMMANDS = new Set([
+  "env",
+  "nohup",
+  "time",
+  "nice",
+  "command",
+  "exec",
+  "xargs",
+  "timeout",
+]);
+
+// Options of those wrappers that take a value, so the value is not taken for the executable.
+const PREFIX_VALUE_OPTIONS: Record<string, string[]> = {
+  env: ["-u", "--unset", "-C", "--chdir"],
+  nice: ["-n", "--adjustment"],
+  timeout: ["-k", "-s", "--kill-after", "--signal"],
+  xargs: ["-a", "-d", "-E", "-I", "-L", "-n", "-P", "-s"],
+};
+
+// Reserved words that may start a simple command, e.g. `{ sudo ls; }` or `! dd`.
+const SHELL_KEYWORDS = new Set([
+  "{",
+  "}",
+  "!",
+  "if",
+  "then",
+  "elif",
+  "else",
+  "fi",
+  "while",
+  "until",
+  "do",
+  "done",
+]);
+
+// Shells whose `-c` argument is a command line of its own.
+const SHELLS = new Set(["sh", "bash", "zsh", "dash", "ksh"]);
+
+// Shells and `eval` running commands inside commands.
+const MAX_NESTING = 5;
+
+// Stands in for the output of a command substitution, which is only known at run time.
+const SUBSTITUTION = "\0";
+
+const SECRET_ENV_PATTERN =
+  /KEY|TOKEN|SECRET|PASSWORD|PASSWD|CREDENTIAL|AUTH|COOKIE/i;
+
+// Index of the `)` closing a `(` opened just before `start`, or -1.
+function closingParen(line: string, start: number): number {
+  let depth = 1;
+  let quote: string | null = null;
+  for (let i = start; i < line.length; i++) {
+    const c = line[i];
+    if (c === "\\" && quote !== "'") i++;
+    else if (quote) {
+      if (c === quote) quote = null;
+    } else if (c === "'" || c === '"') quote = c;
+    else if (c === "(") depth++;
+    else if (c === ")" && --depth === 0) return i;
+  }
+  return -1;
+}
+
+/**
+ * Splits a command line into the argv of every simple command in it,
+ * including those inside `$(...)`, backticks and `<(...)`/`>(...)`. Words
+ * come unquoted and unescaped, as the shell passes them, and redirections are
+ * dropped. Returns null for syntax it cannot follow with confidence, such as
+ * unterminated quotes or `$'...'` escapes.
+ */
+function parseCommands(line: string): string[][] | null {
+  const commands: string[][] = [];
+  let argv: string[] = [];
+  let word = "";
+  let inWord = false;
+  let quote: string | null = null;
+  let redirectTarget = false;
+  const endWord = () => {
+    if (inWord && !redirectTarget) argv.push(word);
+    if (inWord) redirectTarget = false;
+    word = "";
+    inWord = false;
+  };
+
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    const next = line[i + 1];
+    if (quote === "'") {
+      if (c === "'") quote = null;
+      else word += c;
+      continue;
+    }
+    if (c === "\\") {
+      if (next === undefined) return null;
+      i++;
+      if (next === "\n") continue;
+      // Inside double quotes a backslash only escapes $, `, " and itself.
+      if (quote === '"' && !'$`"\\'.includes(next)) word += c;
+      word += next;
+      inWord = true;
+      continue;
+    }
+    if (
+      c === "`" ||
+      (c === "$" && next === "(") ||
+      (!quote && (c === "<" || c === ">") && next === "(")
+    ) {
+      const start = c === "`" ? i + 1 : i + 2;
+      const end =
+        c === "`" ? line.indexOf("`", start) : closingParen(line, start);
+      if (end < 0 || line[end - 1] === "\\") return null;
+      const inner = parseCommands(line.slice(start, end));
+      if (!inner) return null;
+      commands.push(...inner);
+      word += SUBSTITUTION;
+      inWord = true;
+      i = end;
+      continue;
+    }
+    if (quote === '"') {
+      if (c === '"') quote = null;
+      else word += c;
+      continue;
+    }
+    if (c === "$" && next === "'") return null;
+    if (c === "'" || c === '"') {
+      quote = c;
+      inWord = true;
+    } else if (c === "#" && !inWord) {
+      const newline = line.indexOf("\n", i);
+      i = newline < 0 ? line.length : newline - 1;
+    } else if (c === "<" || c === ">" || (c === "&" && next === ">")) {
+      // A file descriptor number right before the operator belongs to it, as in `2>&1`.
+      if (/^\d+$/.test(word)) inWord = false;
+      endWord();
+      while ("<>&|".includes(line[i + 1] ?? "x")) i++;
+      redirectTarget = true;
+    } else if (c === " " || c === "\t") {
+      endWord();
+    } else if (";|&\n()".includes(c)) {
+      endWord();
+      if (redirectTarget) return null;
+      if (argv.length > 0) commands.push(argv);
+      argv = [];
+    } else {
+      word += c;
+      inWord = true;
+    }
+  }
+
+  if (quote) return null;
+  endWord();
+  if (redirectTarget) return null;
+  if (argv.length > 0) commands.push(argv);
+  return commands;
+}
+
+// Drops assignments, reserved words and wrappers in front of the executable; null when a wrapper re-splits its arguments.
+function stripPrefixes(words: string[]): string[] | null {
+  const argv = [...words];
+  while (argv.length > 0) {
+    if (
+      /^[A-Za-z_][A-Za-z0-9_]*=/.test(argv[0]) ||
+      SHELL_KEYWORDS.has(argv[0])
+    ) {
+      argv.shift();
+      continue;
+    }
+    const wrapper = basename(argv[0]);
+    if (!PREFIX_COMMANDS.has(wrapper)) break;
+    argv.shift();
+    while (argv[0]?.startsWith("-")) {
+      const option = argv.shift();
+      if (option === "--") break;
+      if (wrapper === "env" && /^(-[a-zA-Z]*S|--split-string)/.test(option))
+        return null;
+      if (PREFIX_VALUE_OPTIONS[wrapper]?.includes(option)) argv.shift();
+    }
+    // timeout's first operand is the duration.
+    if (wrapper === "timeout") argv.shift();
+  }
+  return argv;
+}
+
+// The command line a shell's `-c` or `eval` runs; null when a shell reads its commands from stdin.
+function innerCommand(argv: string[]): string | null | undefined {
+  const binary = basename(argv[0]);
+  if (binary === "eval") return argv.slice(1).join(" ");
+  if (!SHELLS.has(binary)) return undefined;
+  let runsString = false;
+  let i = 1;
+  for (; i < argv.length && /^[-+]/.test(argv[i]); i++) {
+    const option = argv[i];
+    if (option === "--" || option === "-") {
+      i++;
+      break;
+    }
+    if (/^[-+]o$/.test(option)) i++;
+    else if (!option.startsWith("--")) {
+      if (option.includes("s")) return null;
+      if (option.includes("c")) runsString = true;
+    }
+  }
+  if (runsString) return argv[i] ?? null;
+  // `sh script.sh` runs a file; a bare `sh` reads what is piped into it.
+  return i < argv.length ? undefined : null;
+}
+
+function basename(executable: string): string {
+  return executable.split(/[\\/]/).pop() || executable;
+}
+
+// GNU tools and git accept any unambiguous prefix of a long option, so every prefix counts.
+function hasLongOption(args: string[], names: string[]): boolean {
+  return args.some((a) => {
+    const name = /^--([^=]+)/.exec(a)?.[1];
+    return !!name && names.some((n) => n.startsWith(name));
+  });
+}
+
+// `uniq in out` writes its second operand; -f, -s and -w take a value.
+function uniqWritesFile(args: string[]): boolean {
+  let operands = 0;
+  for (let i = 0; i < args.length; i++) {
+    if (/^-[fsw]$/.test(args[i])) i++;
+    else if (!args[i].startsWith("-") || args[i] === "-") operands++;
+  }
+  return operands > 1;
+}
+
+function isReadOnlyGit(args: string[]): boolean {
+  let i = 0;
+  for (; i < args.length && args[i].startsWith("-"); i++) {
+    if (args[i] === "-C") i++;
+    else if (!READ_ONLY_GIT_GLOBALS.has(args[i])) return false;
+  }
+  const sub = args[i];
+  if (!READ_ONLY_GIT.has(sub)) return false;
+  const rest = args.slice(i + 1);
+  const options = rest.includes("--")
+    ? rest.slice(0, rest.indexOf("--"))
+    : rest;
+  // These write files or run a program: an external diff, a textconv filter, a pager.
+  if (
+    hasLongOption(options, [
+      "output",
+      "ext-diff",
+      "textconv",
+      "open-files-in-pager",
+    ])
+  ) {
+    return false;
+  }
+  return sub !== "grep" || !options.some((a) => /^-[a-zA-Z]*O/.test(a));
+}
+
+function isReadOnly(argv: string[]): boolean {
+  const binary = basename(argv[0]);
+  const args = argv.slice(1);
+  if (!READ_ONLY_BINARIES.has(binary)) return false;
+  if (binary === "git") return isReadOnlyGit(args);
+  // Options that make otherwise read-only tools write files or run programs.
+  if (binary === "find") {
+    return !args.some((a) =>
+      /^-(delete|exec|execdir|ok|okdir|fprint|fls)/.test(a),
+    );
+  }
+  if (binary === "sort") {
+    return (
+      !args.some((a) => /^-[a-zA-Z]*o/.test(a)) &&
+      !hasLongOption(args, ["output", "compress-program"])
+    );
+  }
+  if (binary === "rg") return !hasLongOption(args, ["pre"]);
+  if (binary === "tree") return !args.some((a) => a.startsWith("-o"));
+  if (binary === "uniq") return !uniqWritesFile(args);
+  return true;
+}
+
+function checkLine(
+  command: string,
+  policy: CommandPolicy,
+  depth: number,
+): string | null {
+  if (depth > MAX_NESTING) return "nests shells too deeply to be checked";
+  const denied = policy.deny.find((p) => new RegExp(p).test(command));
+  if (denied) return `matches deny pattern /${denied}/`;
+
+  const parsed = parseCommands(command);
+  if (!parsed) return "cannot be parsed with confidence";
+  const commands: string[][] = [];
+  for (const words of parsed) {
+    const argv = stripPrefixes(words);
+    if (!argv) return "cannot be parsed with confidence";
+    if (argv.length === 0) continue;
+    // Expansions and globs only name the executable at run time.
+    if (/[$*?\0]|\[.*\]/.test(argv[0])) {
+      return `'${argv[0].replace(/\0/g, "$(...)")}' is only resolved at run time`;
+    }
+    const binary = basename(argv[0]);
+    if (policy.blockedBinaries.includes(binary))
+      return `'${binary}' is blocked`;
+
+    const inner = innerCommand(argv);
+    if (inner === null)
+      return `'${binary}' runs commands that cannot be checked`;
+    if (inner !== undefined) {
+      const refusal = checkLine(inner, policy, depth + 1);
+      if (refusal) return refusal;
+      continue;
+    }
+    commands.push(argv);
+  }
+
+  if (policy.readOnly) {
+    // `2>&1` and `>/dev/null` are harmless; any other redirection writes a file.
+    if (/(^|[^>])>>?(?!>|&|\s*\/dev\/null(?![^\s;|&)]))/.test(command)) {
+      return "output redirection is not allowed in read-only mode";
+    }
+    const writer = commands.find((argv) => !isReadOnly(argv));
+    if (writer) return `'${writer.join(" ")}' is not a read-only command`;
+  }
+  return null;
+}
+
+/**
+ * Returns why the policy refuses a command, or null when it may run. The
+ * command line of `sh -c` and `eval` is checked like the outer one.
+ */
+export function checkCommand(
+  command: string,
+  policy: CommandPolicy,
+): string | null {
+  const refusal = checkLine(command, policy, 0);
+  if (refusal) return refusal;
+  if (
+    policy.allow.length > 0 &&
+    !policy.allow.some((p) => new RegExp(p).test(command))
+  ) {
+    return "does not match any allow pattern";
+  }
+  return null;
+}
+
+export function restrictEnv(env: NodeJS.ProcessEnv): NodeJS.ProcessEnv {
+  return Object.fromEntries(
+    Object.entries(env).filter(([name]) => !SECRET_ENV_PATTERN.test(name)),
+  );
+}
@@ -0,0 +1,142 @@
+import * as ts from "typescript";
+import * as path from "path";
+import { walkWorkspace } from "./Workspace.js";
+import { resolveImport } from "../ModuleResolver.js";
+
+export const SOURCE_EXTENSIONS = [
+  ".ts",
+  ".tsx",
+  ".mts",
+  ".cts",
+  ".js",
+  ".jsx",
+  ".mjs",
+  ".cjs",
+];
+
+// NodeNext sources import "./x.js" for x.ts.
+const JS_TO_TS: Record<string, string[]> = {
+  ".js": [".ts", ".tsx"],
+  ".jsx": [".tsx"],
+  ".mjs": [".mts"],
+  ".cjs": [".cts"],
+};
+
+export interface ImportSpecifier {
+  text: string;
+  /** Offsets of the specifier text (without quotes) in the source. */
+  pos: number;
+  end: number;
+}
+
+export interface Importer {
+  file: string;
+  specifiers: ImportSpecifier[];
+}
+
+/** Every source file under root, skipping excluded and git-ignored paths. */
+export async function listSourceFiles(root: string): Promise<string[]> {
+  return (await walkWorkspace(root))
+    .filter(
+      (e) => !e.isDirectory && SOURCE_EXTENSIONS.includes(path.extname(e.path)),
+    )
+    .map((e) => e.path);
+}
+
+/** Module specifiers of imports, export-froms, require() and import() calls. */
+export function getImportSpecifiers(content: string): ImportSpecifier[] {
+  // Reported offsets start at the opening quote.
+  return ts.preProcessFile(content, true, true).importedFiles.map((ref) => ({
+    text: ref.fileName,
+    pos: ref.pos + 1,
+    end: ref.end + 1,
+  }));
+}
+
+/** Resolves a relative specifier to one of the known files, or null for packages and unknown targets. */
+export function resolveRelativeImport(
+  fromFile: string,
+  specifier: string,
+  knownFiles: Set<string>,
+): string | null {
+  if (!specifier.startsWith("./") && !specifier.startsWith("../")) return null;
+  const base = path.resolve(path.dirname(fromFile), specifier);
+  const ext = path.extname(base);
+  const stem = base.slice(0, base.length - ext.length);
+  const candidates = [
+    ...(JS_TO_TS[ext] || []).map((e) => stem + e),
+    base,
+    ...SOURCE_EXTENSIONS.map((e) => base + e),
+    ...SOURCE_EXTENSIONS.map((e) => path.join(base, `index${e}`)),
+  ];
+  return candidates.find((c) => knownFiles.has(c)) || null;
+}
+
+/**
+ * Builds the specifier `fromFile` should use for `target`, keeping the
+ * extension style of the specifier it replaces (none, `.js`, or `.ts`).
+ */
+export function relativeSpecifier(
+  fromFile: string,
+  target: string,
+  previous: string,
+): string {
+  const targetExt = path.extname(target);
+  const stem = target.slice(0, target.length - targetExt.length);
+  const previousExt = path.extname(previous);
+  let suffix = "";
+  if (SOURCE_EXTENSIONS.includes(previousExt)) {
+    const jsFlavour = Object.entries(JS_TO_TS).find(([, tsExts]) =>
+      tsExts.includes(targetExt),
+    );
+    suffix = previousExt in JS_TO_TS && jsFlavour ? jsFlavour[0] : targetExt;
+  }
+  let spec = path
+    .relative(path.dirname(fromFile), stem + suffix)
+    .replace(/\\/g, "/");
+  if (!spec.startsWith(".")) spec = `./${spec}`;
+  return spec;
+}
+
+/**
+ * Files among `files` whose imports resolve to `target`. Relative specifiers
+ * are matched against the known files, so files that exist only in a dry
+ * run's overlay count; the rest, such as tsconfig `paths` aliases, go through
+ * the module resolution of the project at `root`.
+ */
+export async function findImporters(
+  target: string,
+  files: string[],
+  read: (file: string) => Promise<string>,
+  root: string = process.cwd(),
+): Promise<Importer[]> {
+  const known = new Set([...files, target]);
+  const importers: Importer[] = [];
+  for (const file of files) {
+    if (file === target) continue;
+    const content = await read(file).catch(() => null);
+    if (content === null) continue;
+    const specifiers = getImportSpecifiers(content).filter((s) => {
+      const relative = resolveRelativeImport(file, s.text, known);
+      if (relative) return relative === target;
+      const resolved = resolveImport(s.text, file, root);
+      return !!resolved && !resolved.external && resolved.fileName === target;
+    });
+    if (specifiers.length > 0) importers.push({ file, specifiers });
+  }
+  return importers;
+}
+
+/** Replaces specifiers in source text; later offsets first so earlier ones stay valid. */
+export function rewriteSpecifiers(
+  content: string,
+  replacements: { specifier: ImportSpecifier; text: string }[],
+): string {
+  return [...replacements]
+    .sort((a, b) => b.specifier.pos - a.specifier.pos)
+    .reduce(
+      (text, { specifier, text: replacement }) =>
+        text.slice(0, specifier.pos) + replacement + text.slice(specifier.end),
+      content,
+    );
+}
@@ -0,0 +1,224 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { registerTool, ToolContext } from "./ToolRegistry.js";
+import {
+  isExcludedPath,
+  resolveWorkspacePath,
+  walkWorkspace,
+} from "./Workspace.js";
+import { matchGlob } from "../../plumbing/Plumbing.js";
+
+const MAX_FILE_BYTES = 1024 * 1024;
+const MAX_LINE_LENGTH = 300;
+
+function clamp(value: unknown, fallback: number, max: number): number {
+  const n = Number(value ?? fallback);
+  return Number.isFinite(n)
+    ? Math.min(Math.max(0, Math.floor(n)), max)
+    : fallback;
+}
+
+function buildMatcher(args: Record<string, unknown>): RegExp {
+  const query = String(args.query ?? "");
+  if (!query) throw new Error("Missing required argument: query");
+  const source =
+    args.regex === true ? query : query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(source, args.ignore_case === true ? "i" : "");
+}
+
+// Globs with a slash match the workspace-relative path, others the file name, like excludedFiles entries.
+function matchesGlobs(relative: string, globs: string[]): boolean {
+  return (
+    globs.length === 0 ||
+    globs.some((glob) =>
+      glob.includes("/")
+        ? matchGlob(relative, glob)
+        : matchGlob(path.posix.basename(relative), glob),
+    )
+  );
+}
+
+function clip(line: string): string {
+  return line.length > MAX_LINE_LENGTH
+    ? `${line.slice(0, MAX_LINE_LENGTH)}…`
+    : line;
+}
+
+// Files to search; in dry runs also the ones so far created only in the overlay.
+async function searchableFiles(
+  root: string,
+  start: string,
+  context?: ToolContext,
+): Promise<string[]> {
+  const files = (await walkWorkspace(root, start))
+    .filter((e) => !e.isDirectory)
+    .map((e) => e.path);
+  const overlaid = (context?.overlay?.getChangedFiles() ?? []).filter((f) => {
+    const relative = path.relative(start, f);
+    return (
+      !relative.startsWith("..") &&
+      !isExcludedPath(path.relative(root, f)) &&
+      !files.includes(f)
+    );
+  });
+  return [...files, ...overlaid.sort()];
+}
+
+async function readSearchable(
+  filePath: string,
+  context?: ToolContext,
+): Promise<string | null> {
+  try {
+    if (context?.overlay) return await context.overlay.read(filePath);
+    if ((await fs.stat(filePath)).size > MAX_FILE_BYTES) return null;
+    const content = await fs.readFile(filePath, "utf-8");
+    return content.includes("\0") ? null : content;
+  } catch {
+    return null;
+  }
+}
+
+export function registerSearchTools() {
+  registerTool({
+    name: "search_code",
+    description:
+      "Search file contents across the workspace by literal text or regular expression. Results are grep-style: 'path:line:text' for matches and 'path-line-text' for context lines. Excluded and git-ignored files are skipped.",
+    input_schema: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description:
+            "Text to find; a JavaScript regular expression when regex is set.",
+        },
+        regex: { type: "boolean" },
+        ignore_case: { type: "boolean" },
+        path: {
+          type: "string",
+          description:
+            "Directory to search in; defaults to the workspace root.",
+        },
+        globs: {
+          type: "array",
+          items: { type: "string" },
+          description:
+            "Only search matching files, e.g. 'src/**/*.ts' or '*.tsx'.",
+        },
+        context_lines: {
+          type: "number",
+          description:
+            "Lines of context around each match (default 2, max 10).",
+        },
+        max_results: {
+          type: "number",
+          description: "Maximum matches returned (default 50, max 200).",
+        },
+      },
+      required: ["query"],
+    },
+    execute: async (args, _onProgress, signal, context) => {
+      const matcher = buildMatcher(args);
+      const root = path.resolve(context?.workingDir ?? process.cwd());
+      const start = await resolveWorkspacePath(String(args.path ?? "."), root);
+      const globs = Array.isArray(args.globs) ? args.globs.map(String) : [];
+      const contextLines = clamp(args.context_lines, 2, 10);
+      const maxResults = Math.max(1, clamp(args.max_results, 50, 200));
+
+      const blocks: string[] = [];
+      let matches = 0;
+      let filesMatched = 0;
+      let capped = false;
+      for (const file of await searchableFiles(root, start, context)) {
+        if (signal?.aborted) throw new Error("Search aborted");
+        const relative = path.relative(root, file).replace(/\\/g, "/");
+        if (!matchesGlobs(relative, globs)) continue;
+        const content = await readSearchable(file, context);
+        if (content === null) continue;
+
+        const lines = content.split(/\r?\n/);
+        const hits = lines.flatMap((line, i) =>
+          matcher.test(line) ? [i] : [],
+        );
+        if (hits.length === 0) continue;
+        filesMatched++;
+
+        // Overlapping context windows merge into one block, separated by "--" like grep.
+        let block: string[] = [];
+        let last = -1;
+        for (const hit of hits) {
+          if (matches >= maxResults) {
+            capped = true;
+            break;
+          }
+          matches++;
+          const from = Math.max(0, hit - contextLines, last + 1);
+          if (last >= 0 && from > last + 1) {
+            blocks.push(block.join("\n"));
+            block = [];
+          }
+          const to = Math.min(lines.length - 1, hit + contextLines);
+          for (let i = from; i <= to; i++) {
+            const separator =
+              i === hit || (i > hit && matcher.test(lines[i])) ? ":" : "-";
+            block.push(
+              `${relative}${separator}${i + 1}${separator}${clip(lines[i])}`,
+            );
+          }
+          last = to;
+        }
+        if (block.length > 0) blocks.push(block.join("\n"));
+        if (capped) break;
+      }
+
+      if (matches === 0) return "No matches.";
+      const summary = capped
+        ? `Stopped at ${maxResults} matches; narrow the query, path or globs to see the rest.`
+        : `${matches} match(es) in ${filesMatched} file(s).`;
+      return `${blocks.join("\n--\n")}\n\n${summary}`;
+    },
+  });
+
+  registerTool({
+    name: "list_tree",
+    description:
+      "List the directory tree below a path recursively, down to a depth limit. Excluded and git-ignored entries are hidden.",
+    input_schema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "Directory to list; defaults to the workspace root.",
+        },
+        depth: {
+          type: "number",
+          description: "Levels to descend (default 3, max 10).",
+        },
+        max_entries: {
+          type: "number",
+          description: "Maximum entries returned (default 500, max 2000).",
+        },
+      },
+    },
+    execute: async (args, _onProgress, _signal, context) => {
+      const root = path.resolve(context?.workingDir ?? process.cwd());
+      const start = await resolveWorkspacePath(String(args.path ?? "."), root);
+      const depth = Math.max(1, clamp(args.depth, 3, 10));
+      const maxEntries = Math.max(1, clamp(args.max_entries, 500, 2000));
+
+      const entries = await walkWorkspace(root, start, depth);
+      const lines = entries
+        .slice(0, maxEntries)
+        .map(
+          (e) =>
+            `${"  ".repeat(e.depth - 1)}${path.basename(e.path)}${e.isDirectory ? "/" : ""}`,
+        );
+      if (lines.length === 0) return "Empty.";
+      if (entries.length > maxEntries) {
+        lines.push(
+          `… ${entries.length - maxEntries} more entries; list a subdirectory or lower the depth.`,
+        );
+      }
+      return lines.join("\n");
+    },
+  });
+}
@@ -1,21 +1,61 @@
 import {
-  resolvePath,
   writeFile,
   readFile,
+  deleteFile,
   safeStringify,
+  applyUnifiedDiff,
 } from "../../plumbing/Plumbing.js";
-import { validateLayering } from "../Validator.js";
+import { extname, join, relative } from "path";
+import { AstValidator, validateLayering } from "../Validator.js";
+import { removeJournaled, writeJournaled } from "../FileJournal.js";
+import { isExcludedPath, resolveWorkspacePath } from "./Workspace.js";
+import {
+  SOURCE_EXTENSIONS,
+  findImporters,
+  getImportSpecifiers,
+  listSourceFiles,
+  relativeSpecifier,
+  resolveRelativeImport,
+  rewriteSpecifiers,
+} from "./Imports.js";
+import type { SubagentRunner } from "../ai/SubagentRunner.js";
+import type { FileOverlay } from "../FileOverlay.js";
 
 export type JsonObjectSchema = Record<string, any>;
 
+export interface ToolContext {
+  streamId: string;
+  /** Directory relative tool paths resolve against; a stream's worktree for subagents. */
+  workingDir: string;
+  /** Run and tool call that file changes are journaled under, for /undo. */
+  runId?: string;
+  toolCallId?: string;
+  /** Set in dry runs: file tools read and write this overlay instead of the workspace. */
+  overlay?: FileOverlay;
+  subagents?: SubagentRunner;
+}
+
 export interface ToolDefinition {
   name: string;
   description: string;
   input_schema: JsonObjectSchema;
+  /** Changes files or runs commands; subject to the approval policy. */
+  mutates?: boolean;
+  /** The file content a call would produce, so reviewers see a diff for edits that carry no full content. */
+  preview?: (
+    args: Record<string, unknown>,
+    context?: ToolContext,
+  ) => Promise<string>;
+  /** Every file a call would write, keyed by absolute path, with its new content or null for a removal. */
+  writes?: (
+    args: Record<string, unknown>,
+    context?: ToolContext,
+  ) => Promise<Map<string, string | null>>;
   execute: (
     args: Record<string, unknown>,
     onProgress?: (update: any) => void,
     signal?: AbortSignal,
+    context?: ToolContext,
   ) => Promise<string>;
 }
 
@@ -58,6 +98,224 @@ export function getStringArg(
   return String(value);
 }
 
+// File tools only ever see paths confined to the stream's working directory.
+function workspacePath(
+  args: Record<string, unknown>,
+  context?: ToolContext,
+): Promise<string> {
+  return resolveWorkspacePath(
+    getStringArg(args, "path"),
+    context?.workingDir ?? process.cwd(),
+  );
+}
+
+async function readWorkspaceFile(
+  resolvedPath: string,
+  context?: ToolContext,
+): Promise<string> {
+  if (context?.overlay) return await context.overlay.read(resolvedPath);
+  return await readFile(resolvedPath);
+}
+
+// Dry runs write to the overlay; real runs are journaled for /undo when a run id is known.
+async function writeWorkspaceFile(
+  resolvedPath: string,
+  content: string,
+  context?: ToolContext,
+) {
+  if (context?.overlay) {
+    context.overlay.write(resolvedPath, content);
+  } else if (context?.runId) {
+    await writeJournaled(resolvedPath, content, {
+      runId: context.runId,
+      toolCallId: context.toolCallId || "",
+    });
+  } else {
+    await writeFile(resolvedPath, content);
+  }
+}
+
+async function removeWorkspaceFile(
+  resolvedPath: string,
+  context?: ToolContext,
+) {
+  if (context?.overlay) {
+    context.overlay.remove(resolvedPath);
+  } else if (context?.runId) {
+    await removeJournaled(resolvedPath, {
+      runId: context.runId,
+      toolCallId: context.toolCallId || "",
+    });
+  } else {
+    await deleteFile(resolvedPath);
+  }
+}
+
+// Source files an import check must see, including ones so far created only in a dry run's overlay.
+async function workspaceSourceFiles(context?: ToolContext): Promise<string[]> {
+  const files = await listSourceFiles(context?.workingDir ?? process.cwd());
+  const overlaid = (context?.overlay?.getChangedFiles() ?? []).filter(
+    (f) => SOURCE_EXTENSIONS.includes(extname(f)) && !files.includes(f),
+  );
+  return [...files, ...overlaid];
+}
+
+function countOccurrences(content: string, search: string): number {
+  let count = 0;
+  for (
+    let at = content.indexOf(search);
+    at !== -1;
+    at = content.indexOf(search, at + search.length)
+  )
+    count++;
+  return count;
+}
+
+/** Replaces an exact search block, which must occur exactly once unless allowMultiple is set. */
+function replaceBlock(
+  content: string,
+  search: string,
+  replace: string,
+  allowMultiple = false,
+): string {
+  if (!search) throw new Error("Search block must not be empty.");
+  const count = countOccurrences(content, search);
+  if (count === 0) {
+    throw new Error(
+      `Search block not found. It must match the file exactly, including whitespace:\n${search.slice(0, 200)}`,
+    );
+  }
+  if (count > 1 && !allowMultiple) {
+    throw new Error(
+      `Search block matches ${count} times. Include more surrounding lines to make it unique, or set allow_multiple.`,
+    );
+  }
+  return content.split(search).join(replace);
+}
+
+async function computeReplace(
+  args: Record<string, unknown>,
+  context?: ToolContext,
+): Promise<string> {
+  const current = await readWorkspaceFile(
+    await workspacePath(args, context),
+    context,
+  );
+  return replaceBlock(
+    current,
+    getStringArg(args, "search"),
+    getStringArg(args, "replace"),
+    args.allow_multiple === true,
+  );
+}
+
+async function computeMultiReplace(
+  args: Record<string, unknown>,
+  context?: ToolContext,
+): Promise<string> {
+  const current = await readWorkspaceFile(
+    await workspacePath(args, context),
+    context,
+  );
+  const edits = args.edits as { search: string; replace: string }[] | undefined;
+  if (typeof args.patch === "string" && edits?.length)
+    throw new Error("Provide either edits or patch, not both.");
+  if (typeof args.patch === "string")
+    return applyUnifiedDiff(current, args.patch);
+  if (!Array.isArray(edits) || edits.length === 0)
+    throw new Error("Provide a non-empty edits array or a unified diff patch.");
+
+  // Edits apply in order to the evolving content; any failure leaves the file untouched.
+  return edits.reduce((content, edit, i) => {
+    try {
+      return replaceBlock(
+        content,
+        String(edit.search ?? ""),
+        String(edit.replace ?? ""),
+      );
+    } catch (e: any) {
+      throw new Error(`Edit ${i + 1}: ${e.message}`);
+    }
+  }, current);
+}
+
+/** The moved file at its destination plus every importer, with their imports rewritten; nothing is written. */
+async function computeMove(
+  args: Record<string, unknown>,
+  context?: ToolContext,
+): Promise<{ from: string; to: string; rewrites: Map<string, string> }> {
+  const pathStr = getStringArg(args, "path");
+  const destStr = getStringArg(args, "destination");
+  const from = await workspacePath(args, context);
+  const to = await resolveWorkspacePath(
+    destStr,
+    context?.workingDir ?? process.cwd(),
+  );
+  const content = await readWorkspaceFile(from, context);
+  if (
+    await readWorkspaceFile(to, context).then(
+      () => true,
+      () => false,
+    )
+  ) {
+    throw new Error(`Refusing to move ${pathStr}: ${destStr} already exists.`);
+  }
+
+  const read = (f: string) => readWorkspaceFile(f, context);
+  const files = await workspaceSourceFiles(context);
+  const known = new Set([...files, from]);
+
+  // The moved file's own relative imports now start from its new directory.
+  let moved = content;
+  if (SOURCE_EXTENSIONS.includes(extname(from))) {
+    moved = rewriteSpecifiers(
+      content,
+      getImportSpecifiers(content).flatMap((specifier) => {
+        const target = resolveRelativeImport(from, specifier.text, known);
+        if (!target) return [];
+        const text = relativeSpecifier(
+          to,
+          target === from ? to : target,
+          specifier.text,
+        );
+        return text === specifier.text ? [] : [{ specifier, text }];
+      }),
+    );
+  }
+
+  const rewrites = new Map<string, string>([[to, moved]]);
+  // Alias imports of the moved file become relative ones; an alias may not map its new path.
+  for (const importer of await findImporters(
+    from,
+    files,
+    read,
+    context?.workingDir,
+  )) {
+    const replacements = importer.specifiers.map((specifier) => ({
+      specifier,
+      text: relativeSpecifier(importer.file, to, specifier.text),
+    }));
+    rewrites.set(
+      importer.file,
+      rewriteSpecifiers(await read(importer.file), replacements),
+    );
+  }
+  return { from, to, rewrites };
+}
+
+// Validate the would-be file before it is written, then write it.
+async function applyComputedEdit(
+  args: Record<string, unknown>,
+  content: string,
+  context?: ToolContext,
+): Promise<string> {
+  const pathStr = getStringArg(args, "path");
+  const resolvedPath = await workspacePath(args, context);
+  await validateLayering(pathStr, content, context?.workingDir);
+  await writeWorkspaceFile(resolvedPath, content, context);
+  return `Edit applied to ${pathStr}. Architectural integrity verified.`;
+}
+
 export function registerCoreTools() {
   registerTool({
     name: "propose_diff",
@@ -98,7 +356,8 @@ export function registerCoreTools() {
       },
       required: ["analysis", "operations"],
     },
-    execute: async (args) => {
+    execute: async (args, _onProgress, _signal, context) => {
+      context?.overlay?.recordPlan(args);
       return `Architectural proposal accepted. Proceed to apply changes atomicly.\nPlan: ${safeStringify(args.analysis, 2)}`;
     },
   });
@@ -106,6 +365,7 @@ export function registerCoreTools() {
   registerTool({
     name: "apply_change",
     description: "Apply a single validated file creation or modification.",
+    mutates: true,
     input_schema: {
       type: "object",
       properties: {
@@ -115,15 +375,19 @@ export function registerCoreTools() {
       },
       required: ["type", "path", "content"],
     },
-    execute: async (args) => {
+    writes: async (args, context) =>
+      new Map([
+        [await workspacePath(args, context), getStringArg(args, "content")],
+      ]),
+    execute: async (args, _onProgress, _signal, context) => {
       const pathStr = getStringArg(args, "path");
       const contentStr = getStringArg(args, "content");
+      const resolvedPath = await workspacePath(args, context);
 
       // ARCHITECTURAL VALIDATION
-      validateLayering(pathStr, contentStr);
+      await validateLayering(pathStr, contentStr, context?.workingDir);
 
-      const resolvedPath = resolvePath(pathStr);
-      await writeFile(resolvedPath, contentStr);
+      await writeWorkspaceFile(resolvedPath, contentStr, context);
       return `Change applied to ${pathStr}. Architectural integrity verified.`;
     },
   });
@@ -136,9 +400,175 @@ export function registerCoreTools() {
       properties: { path: { type: "string" } },
       required: ["path"],
     },
-    execute: async (args) => {
-      const p = getStringArg(args, "path");
-      return await readFile(p);
+    execute: async (args, _onProgress, _signal, context) => {
+      return await readWorkspaceFile(
+        await workspacePath(args, context),
+        context,
+      );
+    },
+  });
+
+  registerTool({
+    name: "replace_file_content",
+    description:
+      "Edit an existing file by replacing one exact search block. The block must match the file byte-for-byte and occur exactly once (unless allow_multiple is set). Prefer this over apply_change for small edits to large files.",
+    mutates: true,
+    input_schema: {
+      type: "object",
+      properties: {
+        path: { type: "string" },
+        search: {
+          type: "string",
+          description:
+            "Exact text to find, with enough surrounding lines to be unique.",
+        },
+        replace: { type: "string", description: "Replacement text." },
+        allow_multiple: {
+          type: "boolean",
+          description:
+            "Replace every occurrence instead of requiring exactly one.",
+        },
+      },
+      required: ["path", "search", "replace"],
+    },
+    preview: computeReplace,
+    writes: async (args, context) =>
+      new Map([
+        [
+          await workspacePath(args, context),
+          await computeReplace(args, context),
+        ],
+      ]),
+    execute: async (args, _onProgress, _signal, context) => {
+      return await applyComputedEdit(
+        args,
+        await computeReplace(args, context),
+        context,
+      );
+    },
+  });
+
+  registerTool({
+    name: "multi_replace_file_content",
+    description:
+      "Edit an existing file with several exact search/replace blocks applied in order, or with a unified diff patch whose hunks are located with fuzzy context matching. All edits apply or none do.",
+    mutates: true,
+    input_schema: {
+      type: "object",
+      properties: {
+        path: { type: "string" },
+        edits: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              search: { type: "string" },
+              replace: { type: "string" },
+            },
+            required: ["search", "replace"],
+          },
+        },
+        patch: {
+          type: "string",
+          description:
+            "Unified diff for this single file (@@ hunks); used instead of edits.",
+        },
+      },
+      required: ["path"],
+    },
+    preview: computeMultiReplace,
+    writes: async (args, context) =>
+      new Map([
+        [
+          await workspacePath(args, context),
+          await computeMultiReplace(args, context),
+        ],
+      ]),
+    execute: async (args, _onProgress, _signal, context) => {
+      return await applyComputedEdit(
+        args,
+        await computeMultiReplace(args, context),
+        context,
+      );
+    },
+  });
+
+  registerTool({
+    name: "delete_file",
+    description:
+      "Delete a file. Refused while any other file still imports it; remove or redirect those imports first.",
+    mutates: true,
+    input_schema: {
+      type: "object",
+      properties: { path: { type: "string" } },
+      required: ["path"],
+    },
+    writes: async (args, context) =>
+      new Map([[await workspacePath(args, context), null]]),
+    execute: async (args, _onProgress, _signal, context) => {
+      const pathStr = getStringArg(args, "path");
+      const resolvedPath = await workspacePath(args, context);
+      const root = context?.workingDir ?? process.cwd();
+      await readWorkspaceFile(resolvedPath, context);
+
+      const importers = await findImporters(
+        resolvedPath,
+        await workspaceSourceFiles(context),
+        (f) => readWorkspaceFile(f, context),
+        root,
+      );
+      if (importers.length > 0) {
+        throw new Error(
+          `Refusing to delete ${pathStr}: still imported by ${importers.map((i) => relative(root, i.file)).join(", ")}.`,
+        );
+      }
+
+      await removeWorkspaceFile(resolvedPath, context);
+      return `Deleted ${pathStr}. No remaining file imports it.`;
+    },
+  });
+
+  registerTool({
+    name: "move_file",
+    description:
+      "Move or rename a file and rewrite the imports that point at it, relative or through tsconfig path aliases (those become relative imports), as well as the moved file's own relative imports. Every rewritten file is re-validated against its layer. The propose_diff plan must list the file, its destination and every file whose imports change.",
+    mutates: true,
+    input_schema: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "Current path of the file." },
+        destination: {
+          type: "string",
+          description: "New path; must not exist yet.",
+        },
+      },
+      required: ["path", "destination"],
+    },
+    writes: async (args, context) => {
+      const { from, rewrites } = await computeMove(args, context);
+      return new Map<string, string | null>([...rewrites, [from, null]]);
+    },
+    execute: async (args, _onProgress, _signal, context) => {
+      const pathStr = getStringArg(args, "path");
+      const destStr = getStringArg(args, "destination");
+      const root = context?.workingDir ?? process.cwd();
+      const { from, to, rewrites } = await computeMove(args, context);
+
+      // Every rewritten file must still respect its layer before anything is written.
+      for (const [file, rewritten] of rewrites) {
+        if (SOURCE_EXTENSIONS.includes(extname(file)))
+          AstValidator.validate(relative(root, file), rewritten, root);
+      }
+
+      for (const [file, rewritten] of rewrites) {
+        await writeWorkspaceFile(file, rewritten, context);
+      }
+      await removeWorkspaceFile(from, context);
+
+      const updated = Array.from(rewrites.keys())
+        .filter((f) => f !== to)
+        .map((f) => relative(root, f));
+      return `Moved ${pathStr} to ${destStr}.${updated.length > 0 ? ` Imports updated in: ${updated.join(", ")}.` : ""} Architectural integrity verified.`;
     },
   });
 
@@ -150,34 +580,82 @@ export function registerCoreTools() {
       properties: { path: { type: "string" } },
       required: ["path"],
     },
-    execute: async (args) => {
+    execute: async (args, _onProgress, _signal, context) => {
       const { listFiles } = await import("../../plumbing/Plumbing.js");
-      return await listFiles(getStringArg(args, "path"));
+      const p = await workspacePath(args, context);
+      const listing = context?.overlay
+        ? await context.overlay.list(p)
+        : await listFiles(p);
+      // Entries read "FILE name" / "DIR  name"; excluded ones are hidden like they are unreadable.
+      const root = context?.workingDir ?? process.cwd();
+      const visible = listing
+        .split("\n")
+        .filter(
+          (line) =>
+            !/^(FILE|DIR ) /.test(line) ||
+            !isExcludedPath(relative(root, join(p, line.slice(5)))),
+        );
+      return visible.filter((line) => line !== "Empty.").join("\n") || "Empty.";
     },
   });
 
   registerTool({
     name: "spawn_subagent",
-    description: "Delegate a sub-task to a parallel agent stream. Used for complex, multi-layered problems.",
+    description:
+      "Delegate a sub-task to a parallel agent stream. Used for complex, multi-layered problems.",
     input_schema: {
       type: "object",
       properties: {
-        focus: { type: "string", description: "The specific architectural goal for the subagent." },
-        tasks: { type: "array", items: { type: "string" }, description: "Specific sub-tasks to complete." },
+        focus: {
+          type: "string",
+          description: "The specific architectural goal for the subagent.",
+        },
+        tasks: {
+          type: "array",
+          items: { type: "string" },
+          description: "Specific sub-tasks to complete.",
+        },
       },
       required: ["focus", "tasks"],
     },
-    execute: async (args) => {
+    execute: async (args, _onProgress, signal, context) => {
       const { orchestrator } = await import("../ai/Orchestrator.js");
       const focus = getStringArg(args, "focus");
       const tasks = args.tasks as string[];
 
-      const stream = await orchestrator.createStream(focus);
+      const stream = await orchestrator.createStream(
+        focus,
+        context?.streamId ?? null,
+      );
       for (const t of tasks) {
         await orchestrator.createTask(stream.id, t);
       }
 
-      return `Subagent stream '${stream.id}' spawned for: ${focus}. Tasks initialized. coordination required.`;
+      if (!context?.subagents) {
+        return `Subagent stream '${stream.id}' spawned for: ${focus}. Tasks queued; no runner is attached to this stream.`;
+      }
+      context.subagents.start(
+        stream,
+        signal,
+        context.runId
+          ? { runId: context.runId, toolCallId: context.toolCallId || "" }
+          : undefined,
+      );
+      return `Subagent stream '${stream.id}' spawned for: ${focus}. ${tasks.length} task(s) running. Call await_subagents to collect the consolidated result.`;
+    },
+  });
+
+  registerTool({
+    name: "await_subagents",
+    description:
+      "Wait for every subagent stream spawned by this stream and return their consolidated results.",
+    input_schema: {
+      type: "object",
+      properties: {},
+    },
+    execute: async (_args, _onProgress, _signal, context) => {
+      if (!context?.subagents) return "No subagent streams are running.";
+      return await context.subagents.collect();
     },
   });
 }
@@ -0,0 +1,200 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { getExcludedFiles } from "../Config.js";
+import { matchGlob } from "../../plumbing/Plumbing.js";
+
+function isInside(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return (
+    relative === "" ||
+    (!relative.startsWith(`..${path.sep}`) &&
+      relative !== ".." &&
+      !path.isAbsolute(relative))
+  );
+}
+
+// Resolves symlinks on the longest existing prefix, so paths that do not exist yet are checked too.
+async function realpathOfExisting(target: string): Promise<string> {
+  const missing: string[] = [];
+  let current = target;
+  while (true) {
+    try {
+      return path.join(await fs.realpath(current), ...missing.reverse());
+    } catch (e: any) {
+      if (e.code !== "ENOENT" && e.code !== "ENOTDIR") throw e;
+      const parent = path.dirname(current);
+      if (parent === current) return target;
+      missing.push(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+/** Whether a workspace-relative path hits an entry of the exclusion list. */
+export function isExcludedPath(
+  relativePath: string,
+  excluded: string[] = getExcludedFiles(),
+): boolean {
+  const normalized = relativePath.replace(/\\/g, "/");
+  const segments = normalized.split("/");
+  return excluded.some((entry) =>
+    entry.includes("/")
+      ? matchGlob(normalized, entry) ||
+        matchGlob(normalized, `${entry.replace(/\/$/, "")}/**`)
+      : segments.some((segment) => matchGlob(segment, entry)),
+  );
+}
+
+/**
+ * Resolves a tool-supplied path inside the working directory. Home-relative
+ * paths, paths outside the workspace, symlinks leading out of it and excluded
+ * files are rejected.
+ */
+export async function resolveWorkspacePath(
+  p: string,
+  workingDir: string,
+): Promise<string> {
+  if (p.startsWith("~")) {
+    throw new Error(
+      `Path '${p}' is outside the workspace: home-relative paths are not allowed.`,
+    );
+  }
+  const root = path.resolve(workingDir);
+  const resolved = path.resolve(root, p);
+  if (!isInside(root, resolved)) {
+    throw new Error(`Path '${p}' is outside the workspace ${root}.`);
+  }
+
+  const realRoot = await fs.realpath(root);
+  const real = await realpathOfExisting(resolved);
+  if (!isInside(realRoot, real)) {
+    throw new Error(
+      `Path '${p}' escapes the workspace through a symbolic link (resolves to ${real}).`,
+    );
+  }
+
+  // A link inside the workspace must not open an excluded file either.
+  const excluded = [
+    path.relative(root, resolved),
+    path.relative(realRoot, real),
+  ];
+  if (excluded.some((relative) => relative && isExcludedPath(relative))) {
+    throw new Error(`Path '${p}' is excluded from file tools.`);
+  }
+  return resolved;
+}
+
+export interface WorkspaceEntry {
+  path: string;
+  /** Workspace-relative, with forward slashes. */
+  relative: string;
+  isDirectory: boolean;
+  /** 1 for entries directly inside the directory the walk started from. */
+  depth: number;
+}
+
+interface IgnoreRule {
+  /** Workspace-relative directory of the .gitignore; "" for the root. */
+  base: string;
+  pattern: string;
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+async function readGitignore(
+  root: string,
+  base: string,
+): Promise<IgnoreRule[]> {
+  let content: string;
+  try {
+    content = await fs.readFile(path.join(root, base, ".gitignore"), "utf-8");
+  } catch {
+    return [];
+  }
+  return content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#"))
+    .map((line) => {
+      const negated = line.startsWith("!");
+      const pattern = negated ? line.slice(1) : line;
+      return {
+        base,
+        pattern: pattern.replace(/\/$/, ""),
+        negated,
+        directoryOnly: pattern.endsWith("/"),
+      };
+    });
+}
+
+// Gitignore semantics: a pattern with a slash is anchored to its .gitignore, one without matches any name; the last matching rule wins.
+function isIgnored(
+  relativePath: string,
+  isDirectory: boolean,
+  rules: IgnoreRule[],
+): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) continue;
+    if (rule.base && !relativePath.startsWith(`${rule.base}/`)) continue;
+    const local = rule.base
+      ? relativePath.slice(rule.base.length + 1)
+      : relativePath;
+    const matches = rule.pattern.includes("/")
+      ? matchGlob(local, rule.pattern.replace(/^\//, ""))
+      : matchGlob(path.posix.basename(local), rule.pattern);
+    if (matches) ignored = !rule.negated;
+  }
+  return ignored;
+}
+
+/**
+ * Lists the workspace below `start` depth-first in name order, skipping
+ * excluded paths and anything ignored by the .gitignore files on the way.
+ * Symbolic links are not followed.
+ */
+export async function walkWorkspace(
+  root: string,
+  start: string = root,
+  maxDepth = Infinity,
+): Promise<WorkspaceEntry[]> {
+  const relativeStart = path.relative(root, start).replace(/\\/g, "/");
+  // .gitignore files above the starting directory apply too.
+  const rules = await readGitignore(root, "");
+  const parts = relativeStart ? relativeStart.split("/") : [];
+  for (let i = 1; i <= parts.length; i++) {
+    rules.push(...(await readGitignore(root, parts.slice(0, i).join("/"))));
+  }
+
+  const entries: WorkspaceEntry[] = [];
+  const walk = async (
+    dir: string,
+    relativeDir: string,
+    depth: number,
+    inherited: IgnoreRule[],
+  ) => {
+    const dirents = await fs.readdir(dir, { withFileTypes: true });
+    dirents.sort((a, b) => a.name.localeCompare(b.name));
+    for (const dirent of dirents) {
+      const relative = relativeDir
+        ? `${relativeDir}/${dirent.name}`
+        : dirent.name;
+      const isDirectory = dirent.isDirectory();
+      if (
+        isExcludedPath(relative) ||
+        isIgnored(relative, isDirectory, inherited)
+      )
+        continue;
+      const full = path.join(dir, dirent.name);
+      entries.push({ path: full, relative, isDirectory, depth });
+      if (isDirectory && depth < maxDepth) {
+        await walk(full, relative, depth + 1, [
+          ...inherited,
+          ...(await readGitignore(root, relative)),
+        ]);
+      }
+    }
+  };
+  await walk(start, relativeStart, 1, rules);
+  return entries;
+}
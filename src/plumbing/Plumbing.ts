@@ -1,11 +1,12 @@
 import * as path from "path";
 import * as fs from "fs/promises";
 import * as os from "os";
-import { exec } from "child_process";
+import { exec, execFile, spawn } from "child_process";
 import { promisify } from "util";
 import { createRequire } from "module";
 
 const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
 const textDecoder = new TextDecoder();
 const textEncoder = new TextEncoder();
 
@@ -25,12 +26,15 @@ export const nodeRequire = (() => {
 
 // --- FS & SHELL ---
 
-export function resolvePath(p: string): string {
+export function resolvePath(
+  p: string,
+  baseDir: string = process.cwd(),
+): string {
   let resolved = p;
   if (p.startsWith("~")) resolved = path.join(os.homedir(), p.slice(1));
   return path.isAbsolute(resolved)
     ? path.normalize(resolved)
-    : path.join(process.cwd(), resolved);
+    : path.join(baseDir, resolved);
 }
 
 export async function readFile(
@@ -83,11 +87,130 @@ export async function runCommand(
   }
 }
 
+export interface SpawnCommandOptions {
+  cwd: string;
+  env?: NodeJS.ProcessEnv;
+  timeoutMs?: number;
+  /** Combined stdout+stderr limit; the process tree is killed when exceeded. */
+  maxOutputBytes?: number;
+  signal?: AbortSignal;
+}
+
+export interface CommandResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  timedOut: boolean;
+  aborted: boolean;
+  truncated: boolean;
+  outputBytes: number;
+  durationMs: number;
+}
+
+// The shell runs in its own process group, so killing the group takes its children with it.
+function killProcessTree(pid: number) {
+  try {
+    if (process.platform === "win32") {
+      execFile("taskkill", ["/pid", String(pid), "/T", "/F"], () => {});
+    } else {
+      process.kill(-pid, "SIGKILL");
+    }
+  } catch {
+    // Already exited
+  }
+}
+
+/** Runs a shell command with a timeout, an output cap and abort support; never rejects on exit status. */
+export function spawnCommand(
+  command: string,
+  options: SpawnCommandOptions,
+): Promise<CommandResult> {
+  const startedAt = Date.now();
+  const maxOutput = options.maxOutputBytes ?? Infinity;
+  return new Promise((resolve, reject) => {
+    if (options.signal?.aborted) return reject(new Error("Command Aborted"));
+
+    const child = spawn(command, {
+      cwd: options.cwd,
+      env: options.env,
+      shell: true,
+      detached: process.platform !== "win32",
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+    const out = { stdout: [] as Buffer[], stderr: [] as Buffer[] };
+    let outputBytes = 0;
+    let timedOut = false;
+    let aborted = false;
+    let truncated = false;
+
+    const kill = () => child.pid && killProcessTree(child.pid);
+    const collect = (stream: "stdout" | "stderr") => (chunk: Buffer) => {
+      outputBytes += chunk.length;
+      if (truncated) return;
+      const room = maxOutput - (outputBytes - chunk.length);
+      if (chunk.length > room) {
+        out[stream].push(chunk.subarray(0, Math.max(0, room)));
+        truncated = true;
+        kill();
+      } else {
+        out[stream].push(chunk);
+      }
+    };
+    child.stdout!.on("data", collect("stdout"));
+    child.stderr!.on("data", collect("stderr"));
+
+    const timer = options.timeoutMs
+      ? setTimeout(() => {
+          timedOut = true;
+          kill();
+        }, options.timeoutMs)
+      : undefined;
+    const onAbort = () => {
+      aborted = true;
+      kill();
+    };
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+
+    child.on("error", (e) => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", onAbort);
+      reject(e);
+    });
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", onAbort);
+      resolve({
+        stdout: textDecoder.decode(Buffer.concat(out.stdout)),
+        stderr: textDecoder.decode(Buffer.concat(out.stderr)),
+        exitCode: code,
+        timedOut,
+        aborted,
+        truncated,
+        outputBytes,
+        durationMs: Date.now() - startedAt,
+      });
+    });
+  });
+}
+
 export async function gitStatus(cwd: string): Promise<string> {
   const { stdout } = await execAsync("git status --short", { cwd });
   return stdout || "Clean.";
 }
 
+/** Runs git without a shell. Failures throw with git's own stderr as the message. */
+export async function runGit(args: string[], cwd: string): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync("git", args, {
+      cwd,
+      maxBuffer: 64 * 1024 * 1024,
+    });
+    return stdout;
+  } catch (e: any) {
+    throw new Error((e.stderr || e.message || "").trim());
+  }
+}
+
 export async function listFiles(dirPath: string): Promise<string> {
   const fullPath = resolvePath(dirPath);
   const entries = await fs.readdir(fullPath, { withFileTypes: true });
@@ -105,6 +228,21 @@ export async function deleteFile(filePath: string): Promise<void> {
 
 // --- CONCURRENCY ---
 
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new Error("Sleep Aborted"));
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error("Sleep Aborted"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
 export class Mutex {
   private queue: Promise<void> = Promise.resolve();
   constructor(private readonly name: string = "GenericMutex") {}
@@ -143,6 +281,28 @@ export class Mutex {
   }
 }
 
+export class Semaphore {
+  private active = 0;
+  private readonly waiters: (() => void)[] = [];
+  constructor(private readonly max: number) {}
+  public async acquire(): Promise<() => void> {
+    if (this.active >= this.max) {
+      // A release hands its slot straight to the next waiter, so `active` already counts it.
+      await new Promise<void>((resolve) => this.waiters.push(resolve));
+    } else {
+      this.active++;
+    }
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const next = this.waiters.shift();
+      if (next) next();
+      else this.active--;
+    };
+  }
+}
+
 // --- JSON & UTILS ---
 
 export function safeStringify(obj: any, space?: string | number): string {
@@ -173,6 +333,268 @@ export function repairJson(json: string): {
   return { repaired, wasFixed };
 }
 
+// --- GLOBS & DIFFS ---
+
+/** Compiles a path glob (`**`, `*`, `?`) to an anchored RegExp over `/`-separated paths. */
+export function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      const slash = glob[i + 2] === "/";
+      source += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (char === "*") source += "[^/]*";
+    else if (char === "?") source += "[^/]";
+    else source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+  }
+  return new RegExp(`^${source}$`);
+}
+
+export function matchGlob(filePath: string, glob: string): boolean {
+  const normalized = filePath.replace(/\\/g, "/").replace(/^\.\//, "");
+  return globToRegExp(glob.replace(/^\.\//, "")).test(normalized);
+}
+
+type DiffOp = { type: " " | "-" | "+"; line: string };
+
+function splitLines(text: string): string[] {
+  if (!text) return [];
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+// Myers' O(ND) line diff; common prefix and suffix are trimmed first to keep the trace small.
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix])
+    prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  )
+    suffix++;
+
+  const head = a.slice(0, prefix).map((line): DiffOp => ({ type: " ", line }));
+  const tail = a
+    .slice(a.length - suffix)
+    .map((line): DiffOp => ({ type: " ", line }));
+  const x0 = a.slice(prefix, a.length - suffix);
+  const y0 = b.slice(prefix, b.length - suffix);
+  const n = x0.length;
+  const m = y0.length;
+  const offset = n + m + 1;
+  const v = new Int32Array(2 * offset + 1);
+  const trace: Int32Array[] = [];
+
+  search: for (let d = 0; d <= n + m; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && x0[x] === y0[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) break search;
+    }
+  }
+
+  const middle: DiffOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const prev = trace[d];
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && prev[offset + k - 1] < prev[offset + k + 1])
+        ? k + 1
+        : k - 1;
+    const prevX = prev[offset + prevK];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      y--;
+      middle.push({ type: " ", line: x0[--x] });
+    }
+    if (d === 0) break;
+    if (x === prevX) middle.push({ type: "+", line: y0[--y] });
+    else middle.push({ type: "-", line: x0[--x] });
+  }
+
+  return [...head, ...middle.reverse(), ...tail];
+}
+
+/**
+ * Renders a unified diff between two versions of a file. A null side is a
+ * missing file (`/dev/null`); identical inputs produce an empty string.
+ */
+export function createUnifiedDiff(
+  filePath: string,
+  before: string | null,
+  after: string | null,
+  context = 3,
+): string {
+  const ops = diffLines(splitLines(before ?? ""), splitLines(after ?? ""));
+  const changes = ops.flatMap((op, i) => (op.type === " " ? [] : [i]));
+  if (changes.length === 0) return "";
+
+  const lines = [
+    `--- ${before === null ? "/dev/null" : `a/${filePath}`}`,
+    `+++ ${after === null ? "/dev/null" : `b/${filePath}`}`,
+  ];
+  let i = 0;
+  while (i < changes.length) {
+    let j = i;
+    while (j + 1 < changes.length && changes[j + 1] - changes[j] <= 2 * context)
+      j++;
+    const start = Math.max(0, changes[i] - context);
+    const end = Math.min(ops.length, changes[j] + context + 1);
+
+    let aLine = 0;
+    let bLine = 0;
+    for (const op of ops.slice(0, start)) {
+      if (op.type !== "+") aLine++;
+      if (op.type !== "-") bLine++;
+    }
+    const hunk = ops.slice(start, end);
+    const aCount = hunk.filter((op) => op.type !== "+").length;
+    const bCount = hunk.filter((op) => op.type !== "-").length;
+    lines.push(
+      `@@ -${aCount ? aLine + 1 : aLine},${aCount} +${bCount ? bLine + 1 : bLine},${bCount} @@`,
+      ...hunk.map((op) => `${op.type}${op.line}`),
+    );
+    i = j + 1;
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+interface Hunk {
+  header: string;
+  oldStart: number;
+  oldLines: string[];
+  newLines: string[];
+  /** Leading and trailing context line counts, which fuzz may drop. */
+  leading: number;
+  trailing: number;
+}
+
+function parseHunks(patch: string): Hunk[] {
+  const hunks: Hunk[] = [];
+  let current: Hunk | null = null;
+  const patchLines = patch.replace(/\r\n/g, "\n").split("\n");
+  if (patchLines[patchLines.length - 1] === "") patchLines.pop();
+  for (const line of patchLines) {
+    const header = line.match(/^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/);
+    if (header) {
+      current = {
+        header: header[0],
+        oldStart: Number(header[1]),
+        oldLines: [],
+        newLines: [],
+        leading: 0,
+        trailing: 0,
+      };
+      hunks.push(current);
+    } else if (!current || line.startsWith("\\")) {
+      continue;
+    } else if (line.startsWith("+")) {
+      current.newLines.push(line.slice(1));
+      current.trailing = 0;
+    } else if (line.startsWith("-")) {
+      current.oldLines.push(line.slice(1));
+      current.trailing = 0;
+    } else if (line.startsWith(" ") || line === "") {
+      // Models often drop the space prefix on blank context lines.
+      const text = line.slice(1);
+      const onlyContextSoFar =
+        current.oldLines.length === current.leading &&
+        current.newLines.length === current.leading;
+      if (onlyContextSoFar) current.leading++;
+      else current.trailing++;
+      current.oldLines.push(text);
+      current.newLines.push(text);
+    }
+  }
+  return hunks.filter((h) => h.oldLines.length > 0 || h.newLines.length > 0);
+}
+
+// Nearest position to `expected` where `needle` matches, or -1.
+function findNearest(
+  lines: string[],
+  needle: string[],
+  expected: number,
+  equal: (a: string, b: string) => boolean,
+): number {
+  const last = lines.length - needle.length;
+  for (
+    let distance = 0;
+    distance <= Math.max(expected, last - expected);
+    distance++
+  ) {
+    for (const at of [expected - distance, expected + distance]) {
+      if (at < 0 || at > last) continue;
+      if (needle.every((line, i) => equal(lines[at + i], line))) return at;
+      if (distance === 0) break;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Applies a single-file unified diff. Hunks are located near their stated
+ * line first, then anywhere in the file; when the context does not match
+ * exactly, whitespace differences are ignored and up to `fuzz` leading and
+ * trailing context lines are dropped, as `patch` does.
+ */
+export function applyUnifiedDiff(
+  content: string,
+  patch: string,
+  fuzz = 2,
+): string {
+  const hunks = parseHunks(patch);
+  if (hunks.length === 0) throw new Error("Patch contains no hunks.");
+
+  const trailingNewline = content === "" || content.endsWith("\n");
+  const lines = splitLines(content);
+  const exact = (a: string, b: string) => a === b;
+  const loose = (a: string, b: string) => a.trim() === b.trim();
+  let delta = 0;
+
+  hunks.forEach((hunk, index) => {
+    const expected = Math.max(0, hunk.oldStart - 1 + delta);
+    let applied = false;
+    for (let drop = 0; drop <= fuzz && !applied; drop++) {
+      const head = Math.min(drop, hunk.leading);
+      const tail = Math.min(drop, hunk.trailing);
+      if (drop > 0 && head === 0 && tail === 0) break;
+      const oldLines = hunk.oldLines.slice(head, hunk.oldLines.length - tail);
+      const newLines = hunk.newLines.slice(head, hunk.newLines.length - tail);
+      for (const equal of [exact, loose]) {
+        const at = findNearest(lines, oldLines, expected + head, equal);
+        if (at === -1) continue;
+        lines.splice(at, oldLines.length, ...newLines);
+        delta += newLines.length - oldLines.length;
+        applied = true;
+        break;
+      }
+    }
+    if (!applied) {
+      throw new Error(
+        `Hunk ${index + 1} (${hunk.header}) does not apply: its context was not found in the file.`,
+      );
+    }
+  });
+
+  return lines.join("\n") + (trailingNewline && lines.length > 0 ? "\n" : "");
+}
+
 // --- STREAMING ---
 
 export interface StreamTagDetector {
@@ -204,3 +626,84 @@ export function createStreamTagDetector(tags: string[]): StreamTagDetector {
     },
   };
 }
+
+export interface SseEvent {
+  event?: string;
+  data: string;
+}
+
+export interface SseParser {
+  push: (chunk: string) => SseEvent[];
+  flush: () => SseEvent[];
+}
+
+/**
+ * Incremental Server-Sent Events parser. Network chunks may split lines (and
+ * multi-byte characters, which callers handle via `TextDecoder` streaming),
+ * so partial lines are buffered until their terminating newline arrives.
+ */
+export function createSseParser(): SseParser {
+  let buffer = "";
+  let eventName: string | undefined;
+  let dataLines: string[] = [];
+
+  const dispatch = (out: SseEvent[]) => {
+    if (dataLines.length > 0) {
+      out.push({ event: eventName, data: dataLines.join("\n") });
+    }
+    eventName = undefined;
+    dataLines = [];
+  };
+
+  const consumeLine = (rawLine: string, out: SseEvent[]) => {
+    const line = rawLine.endsWith("\r") ? rawLine.slice(0, -1) : rawLine;
+    if (line === "") return dispatch(out);
+    if (line.startsWith(":")) return;
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+    if (field === "event") eventName = value;
+    else if (field === "data") dataLines.push(value);
+  };
+
+  return {
+    push(chunk) {
+      buffer += chunk;
+      const out: SseEvent[] = [];
+      let newline = buffer.indexOf("\n");
+      while (newline !== -1) {
+        consumeLine(buffer.slice(0, newline), out);
+        buffer = buffer.slice(newline + 1);
+        newline = buffer.indexOf("\n");
+      }
+      return out;
+    },
+    flush() {
+      const out: SseEvent[] = [];
+      if (buffer) consumeLine(buffer, out);
+      buffer = "";
+      dispatch(out);
+      return out;
+    },
+  };
+}
+
+export async function* readSseEvents(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<SseEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const parser = createSseParser();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      yield* parser.push(decoder.decode(value, { stream: true }));
+    }
+    yield* parser.push(decoder.decode());
+    yield* parser.flush();
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -17,13 +17,14 @@ export const DIRECTIVES: Record<DevelopmentLoop, string> = {
   [DevelopmentLoop.IDENTIFY]: "Analyze the specific delta needed. Do not solve the whole problem at once.",
   [DevelopmentLoop.PROPOSE]: "Declare intent. Propose the minimal valid diff. Avoid side effects.",
   [DevelopmentLoop.APPLY]: "Mutate with surgical precision. One file at a time. Validation is mandatory.",
-  [DevelopmentLoop.RE_EVALUATE]: "Verify integrity. Check for lints, leaks, and layer breaches.",
+  [DevelopmentLoop.RE_EVALUATE]: "Verify integrity. Act on the type-check diagnostics returned with the last change, then check for leaks and layer breaches.",
   [DevelopmentLoop.ERROR_RECOVERY]: "CRITICAL BREACH DETECTED. Analyze the failure, propose a rollback or fix, and re-verify architectural purity.",
 };
 
 export interface LayerContext {
   path: string;
-  layer: "domain" | "infrastructure" | "plumbing" | "ui";
+  layer: string;
+  /** From the layer's rule in .engine/layers.json. */
   constraints: string[];
 }
 
@@ -48,10 +49,10 @@ Constraint: No Domain file may import or call infrastructure, UI, or plumbing ru
 
 2. Diff-Native Multi-Pass Loop
 For every stream / pass:
-- List: read relevant files for context.
+- List: read relevant files for context; locate them with search_code and list_tree instead of listing directories one by one.
 - Identify: smallest viable change required to progress.
 - Propose Diff: declare intent via propose_diff.
-- Apply Change: mutate files one at a time via apply_change.
+- Apply Change: mutate files one at a time via apply_change, or edit them surgically via replace_file_content / multi_replace_file_content. Remove files with delete_file and rename them with move_file, which rewrites their importers.
 - Re-evaluate: validate stability, layer purity, and diff integrity.
 
 3. Multi-Stream Coordination
@@ -112,6 +113,26 @@ propose_diff:
 
 apply_change:
 { "type": "create" | "modify", "path": "string", "content": "string" }
+
+replace_file_content:
+{ "path": "string", "search": "exact unique text", "replace": "string", "allow_multiple"?: boolean }
+
+multi_replace_file_content:
+{ "path": "string", "edits": [{ "search": "exact unique text", "replace": "string" }] }
+or
+{ "path": "string", "patch": "unified diff with @@ hunks" }
+
+search_code:
+{ "query": "string", "regex"?: boolean, "ignore_case"?: boolean, "path"?: "string", "globs"?: ["src/**/*.ts"], "context_lines"?: number, "max_results"?: number }
+
+list_tree:
+{ "path"?: "string", "depth"?: number, "max_entries"?: number }
+
+delete_file:
+{ "path": "string" }
+
+move_file:
+{ "path": "string", "destination": "string" }
 `;
 
 export const SOVEREIGN_CLAUSE = `
@@ -145,7 +166,7 @@ export const ORCHESTRATION_DIRECTIVES = `
 You can spawn PARALLEL SUBAGENTS for complex tasks.
 1. DELEGATE: Use "spawn_subagent" for decoupled sub-problems (e.g., refactoring Infrastructure while Domain remains stable).
 2. COORDINATE: Reference sibling streams to avoid overlapping mutations.
-3. CONSOLIDATE: Re-evaluate the system once all subagents have reported completion.
+3. CONSOLIDATE: Call "await_subagents" to collect every subagent's result, then re-evaluate the system.
 `;
 
 export interface StreamContext {
@@ -1,6 +1,19 @@
-import { Callbacks, SessionMetadata, ProviderType } from "../domain/types.js";
+import * as path from "path";
+import {
+  Callbacks,
+  SessionMetadata,
+  ProviderType,
+  RunTelemetry,
+  RunBudget,
+  UsageReport,
+  SessionSnapshot,
+  AuditFormat,
+  AuditReport,
+  GraphFormat,
+} from "../domain/types.js";
 import { registerToolDefinitions } from "../infrastructure/tools/CliTools.js";
 import { registerCoreTools } from "../infrastructure/tools/ToolRegistry.js";
+import { registerSearchTools } from "../infrastructure/tools/SearchTools.js";
 import { Storage } from "./storage.js";
 import {
   Orchestrator,
@@ -9,11 +22,30 @@ import {
 } from "../infrastructure/runtime/Orchestrator.js";
 import { Automation } from "../infrastructure/Automation.js";
 import { createAIProvider } from "../infrastructure/ai/AIProvider.js";
+import { withRetry } from "../infrastructure/ai/RetryProvider.js";
+import {
+  CassetteConfig,
+  withCassette,
+} from "../infrastructure/ai/ReplayProvider.js";
 import * as Config from "../infrastructure/Config.js";
+import {
+  renderMessage,
+  renderTranscript,
+  serializeSessionJsonl,
+  parseSessionJsonl,
+} from "../infrastructure/Services.js";
+import { readFile, writeFile } from "../plumbing/Plumbing.js";
+import { auditWorkspace, formatAuditReport } from "../infrastructure/Audit.js";
+import {
+  buildDependencyGraph,
+  findCycles,
+  formatCycle,
+  formatGraph,
+} from "../infrastructure/DependencyGraph.js";
 
 class CliConfigPort implements RuntimeConfigPort {
   getAiProvider(): ProviderType {
-    return "openrouter";
+    return Config.getAiProvider();
   }
   getApiKey(): string {
     return Config.getApiKey() || "";
@@ -27,6 +59,18 @@ class CliConfigPort implements RuntimeConfigPort {
   getLlmFast(): string {
     return Config.getLlmFast();
   }
+  getStageModels(): Record<string, string> {
+    return Config.getStageModels();
+  }
+  getStreaming(): boolean {
+    return Config.getStreaming();
+  }
+  getRunBudget(): RunBudget {
+    return Config.getRunBudget();
+  }
+  getCassette(): CassetteConfig | undefined {
+    return Config.getCassette();
+  }
 }
 
 class CliSessionStorePort implements RuntimeSessionStorePort {
@@ -45,28 +89,93 @@ class CliSessionStorePort implements RuntimeSessionStorePort {
   async saveSessions(sessions: any) {
     await Storage.saveSessions(sessions);
   }
+  async appendMessage(sessionId: string, message: any) {
+    await Storage.appendMessage(sessionId, message);
+  }
+  async deleteSession(id: string) {
+    await Storage.deleteSession(id);
+  }
+  async getSessionRuns(id: string) {
+    return await Storage.getSessionRuns(id);
+  }
+  async importSession(id: string, snapshot: SessionSnapshot) {
+    await Storage.importSession(id, snapshot);
+  }
   async saveSessionMetadata(metadata: any) {
     await Storage.saveSessionMetadata(metadata);
   }
+  async saveRunUsage(sessionId: string, run: RunTelemetry) {
+    await Storage.saveRunUsage(sessionId, run);
+  }
+  async getUsageReport() {
+    return await Storage.getUsageReport();
+  }
+}
+
+/** Audits the workspace, or a directory in it, without starting an engine session. */
+export async function runAudit(
+  workingDir: string,
+  format: AuditFormat,
+  dir?: string,
+): Promise<{ report: AuditReport; output: string }> {
+  const report = await auditWorkspace(
+    workingDir,
+    dir ? path.resolve(workingDir, dir) : workingDir,
+  );
+  return { report, output: formatAuditReport(report, format) };
+}
+
+/** Exports the module graph, or its layer-level collapse, along with the import cycles found. */
+export async function runGraph(
+  workingDir: string,
+  format: GraphFormat,
+  layers: boolean,
+  dir?: string,
+): Promise<{ output: string; cycles: string[] }> {
+  const graph = await buildDependencyGraph(
+    workingDir,
+    dir ? path.resolve(workingDir, dir) : workingDir,
+  );
+  return {
+    output: formatGraph(graph, format, layers),
+    cycles: findCycles(graph).map(formatCycle),
+  };
 }
 
 export class Adapter {
   private orchestrator: Orchestrator<Automation>;
 
-  constructor(workingDir: string = process.cwd()) {
+  constructor(private readonly workingDir: string = process.cwd()) {
     const automation = new Automation(workingDir);
     registerCoreTools();
+    registerSearchTools();
     this.orchestrator = new Orchestrator<Automation>({
+      workingDir,
       config: new CliConfigPort(),
       sessionStore: new CliSessionStorePort(),
       toolRegistrar: (auto) => registerToolDefinitions(auto, workingDir),
-      providerFactory: (type, key) => createAIProvider(type, key),
+      providerFactory: (type, key) =>
+        withCassette(
+          withRetry(createAIProvider(type, key), Config.getRetryPolicy()),
+          Config.getCassette(),
+        ),
       automationService: automation,
     });
   }
 
-  public async handleMessage(text: string, callbacks?: Callbacks) {
-    return this.orchestrator.handleMessage(text, callbacks);
+  public async handleMessage(
+    text: string,
+    callbacks?: Callbacks,
+    signal?: AbortSignal,
+  ) {
+    return this.orchestrator.handleMessage(text, callbacks, signal);
+  }
+  public async dryRun(
+    text: string,
+    callbacks?: Callbacks,
+    signal?: AbortSignal,
+  ) {
+    return this.orchestrator.dryRun(text, callbacks, signal);
   }
   public async createSession() {
     return this.orchestrator.createSession();
@@ -74,9 +183,68 @@ export class Adapter {
   public async listSessions(): Promise<SessionMetadata[]> {
     return this.orchestrator.listSessions();
   }
-  public async loadSession(id: string) {
+  public async loadSession(idOrPrefix: string) {
+    const id = await this.orchestrator.resolveSessionId(idOrPrefix);
     return this.orchestrator.loadSession(id);
   }
+  public async setSessionPinned(idOrPrefix: string, isPinned: boolean) {
+    const id = await this.resolveSessionId(idOrPrefix);
+    await this.orchestrator.setSessionPinned(id, isPinned);
+    return id;
+  }
+  public async renameSession(idOrPrefix: string, title: string) {
+    const id = await this.resolveSessionId(idOrPrefix);
+    await this.orchestrator.renameSession(id, title);
+    return id;
+  }
+  public async deleteSession(idOrPrefix: string) {
+    const id = await this.orchestrator.resolveSessionId(idOrPrefix);
+    await this.orchestrator.deleteSession(id);
+    return id;
+  }
+  /** Writes the session as a Markdown transcript or lossless JSONL and returns the file path. */
+  public async exportSession(
+    format: "md" | "jsonl",
+    idOrPrefix = "",
+    outPath?: string,
+  ): Promise<string> {
+    const id = await this.resolveSessionId(idOrPrefix);
+    const snapshot = await this.orchestrator.getSessionSnapshot(id);
+    const target = path.resolve(this.workingDir, outPath || `${id}.${format}`);
+    await writeFile(
+      target,
+      format === "md"
+        ? renderTranscript(snapshot)
+        : serializeSessionJsonl(snapshot),
+    );
+    return target;
+  }
+  public async importSession(filePath: string): Promise<string> {
+    const text = await readFile(path.resolve(this.workingDir, filePath));
+    return this.orchestrator.importSession(parseSessionJsonl(text));
+  }
+  public getHistory(): { role: string; text: string }[] {
+    return this.orchestrator
+      .getMessages()
+      .map((m) => ({ role: m.role, text: renderMessage(m) }));
+  }
+  // An empty argument targets the active session.
+  private async resolveSessionId(idOrPrefix: string) {
+    if (!idOrPrefix) return this.orchestrator.getCurrentSessionId();
+    return this.orchestrator.resolveSessionId(idOrPrefix);
+  }
+  public async getUsageReport(): Promise<UsageReport> {
+    return this.orchestrator.getUsageReport();
+  }
+  public async getUndoableRuns() {
+    return this.orchestrator.getUndoableRuns();
+  }
+  public async undoRun(runIdOrPrefix?: string) {
+    return this.orchestrator.undoRun(runIdOrPrefix);
+  }
+  public async flush() {
+    return this.orchestrator.flush();
+  }
   public getMessages() {
     return this.orchestrator.getMessages();
   }
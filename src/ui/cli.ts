@@ -1,7 +1,18 @@
 #!/usr/bin/env node
 import * as readline from "readline";
 import * as process from "process";
-import { Adapter } from "./Adapter.js";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { spawnSync } from "child_process";
+import { Adapter, runAudit, runGraph } from "./Adapter.js";
+import {
+  ApprovalDecision,
+  ApprovalRequest,
+  AuditFormat,
+  GraphFormat,
+  UsageSummary,
+} from "../domain/types.js";
 
 const ANSI = {
   reset: "\x1b[0m",
@@ -16,6 +27,7 @@ const ANSI = {
 class Terminal {
   private adapter: Adapter;
   private rl: readline.Interface;
+  private activeRun?: AbortController;
 
   constructor() {
     this.adapter = new Adapter(process.cwd());
@@ -45,34 +57,362 @@ class Terminal {
       }
     });
 
-    this.rl.on("close", () => {
+    // Ctrl-C stops the running request, which restores the files it changed; at the prompt it exits.
+    this.rl.on("SIGINT", () => {
+      if (!this.activeRun) return this.rl.close();
+      console.log(`\n${ANSI.yellow}Aborting…${ANSI.reset}`);
+      this.activeRun.abort();
+    });
+
+    this.rl.on("close", async () => {
+      await this.adapter.flush();
       process.exit(0);
     });
     this.rl.prompt();
   }
 
   private async handleCommand(command: string) {
-    const [cmd] = command.slice(1).split(" ");
-    switch (cmd) {
-      case "new":
-        await this.adapter.createSession();
-        console.log(`${ANSI.green}✓ New session started${ANSI.reset}`);
-        break;
-      case "exit":
-        process.exit(0);
-        break;
-      default:
-        console.log(`${ANSI.yellow}Unknown command: ${cmd}${ANSI.reset}`);
+    const [cmd, ...rest] = command.slice(1).split(" ");
+    const arg = rest.join(" ").trim();
+    try {
+      switch (cmd) {
+        case "new":
+          await this.adapter.createSession();
+          console.log(`${ANSI.green}✓ New session started${ANSI.reset}`);
+          break;
+        case "sessions":
+          await this.showSessions();
+          break;
+        case "load": {
+          if (!arg) throw new Error("Usage: /load <id|prefix>");
+          const id = await this.adapter.loadSession(arg);
+          console.log(`${ANSI.green}✓ Loaded session ${id}${ANSI.reset}`);
+          this.showHistory();
+          break;
+        }
+        case "pin":
+        case "unpin": {
+          const id = await this.adapter.setSessionPinned(arg, cmd === "pin");
+          console.log(
+            `${ANSI.green}✓ ${cmd === "pin" ? "Pinned" : "Unpinned"} ${id}${ANSI.reset}`,
+          );
+          break;
+        }
+        case "rename": {
+          // "/rename <title>" renames the active session; "/rename --id <id|prefix> <title>" another one.
+          const targetsOther = rest[0] === "--id";
+          const target = targetsOther ? rest[1] : "";
+          const title = (targetsOther ? rest.slice(2).join(" ") : arg).trim();
+          if (!title || (targetsOther && !target))
+            throw new Error("Usage: /rename [--id <id|prefix>] <title>");
+          const id = await this.adapter.renameSession(target, title);
+          console.log(
+            `${ANSI.green}✓ Renamed ${id} to "${title}"${ANSI.reset}`,
+          );
+          break;
+        }
+        case "delete": {
+          if (!arg) throw new Error("Usage: /delete <id|prefix>");
+          const id = await this.adapter.deleteSession(arg);
+          console.log(`${ANSI.green}✓ Deleted session ${id}${ANSI.reset}`);
+          break;
+        }
+        case "history":
+          this.showHistory();
+          break;
+        case "export": {
+          // /export <md|jsonl> [id|prefix] [path]
+          const [format, target, outPath] = rest;
+          if (format !== "md" && format !== "jsonl")
+            throw new Error("Usage: /export <md|jsonl> [id|prefix] [path]");
+          const file = await this.adapter.exportSession(
+            format,
+            target,
+            outPath,
+          );
+          console.log(`${ANSI.green}✓ Exported to ${file}${ANSI.reset}`);
+          break;
+        }
+        case "import": {
+          if (!arg) throw new Error("Usage: /import <file.jsonl>");
+          const id = await this.adapter.importSession(arg);
+          console.log(
+            `${ANSI.green}✓ Imported as ${id} (use /load ${id})${ANSI.reset}`,
+          );
+          break;
+        }
+        case "usage":
+          await this.showUsage();
+          break;
+        case "plan": {
+          if (!arg) throw new Error("Usage: /plan <request>");
+          await this.runDryRun(arg);
+          break;
+        }
+        case "undo": {
+          // "/undo" reverts the latest run, "/undo <run>" a chosen one, "/undo list" shows candidates.
+          if (arg === "list") {
+            await this.showUndoableRuns();
+            break;
+          }
+          const result = await this.adapter.undoRun(arg || undefined);
+          console.log(
+            `${ANSI.green}✓ Reverted ${result.runId}: ${result.restored.length} file(s) restored${ANSI.reset}`,
+          );
+          result.restored.forEach((f) =>
+            console.log(`${ANSI.gray}  ${f}${ANSI.reset}`),
+          );
+          break;
+        }
+        case "audit": {
+          const { output } = await runAudit(
+            process.cwd(),
+            "text",
+            arg || undefined,
+          );
+          console.log(output);
+          break;
+        }
+        case "exit":
+          await this.adapter.flush();
+          process.exit(0);
+          break;
+        default:
+          console.log(`${ANSI.yellow}Unknown command: ${cmd}${ANSI.reset}`);
+      }
+    } catch (e: any) {
+      console.log(`${ANSI.red}Error: ${e.message}${ANSI.reset}`);
     }
     this.rl.prompt();
   }
 
+  private async showSessions() {
+    const current = this.adapter.getCurrentSessionId();
+    const sessions = [...(await this.adapter.listSessions())].sort(
+      (a, b) =>
+        Number(b.isPinned) - Number(a.isPinned) ||
+        b.lastModified - a.lastModified,
+    );
+    if (sessions.length === 0) {
+      console.log(`${ANSI.gray}No saved sessions.${ANSI.reset}`);
+      return;
+    }
+    console.log(
+      `${ANSI.gray}    ${"id".padEnd(24)} ${"last modified".padEnd(19)} title${ANSI.reset}`,
+    );
+    for (const s of sessions) {
+      const marker = `${s.id === current ? "›" : " "}${s.isPinned ? "★" : " "}`;
+      const modified = new Date(s.lastModified)
+        .toISOString()
+        .slice(0, 19)
+        .replace("T", " ");
+      const line = `${marker}  ${s.id.padEnd(24)} ${modified} ${s.title}`;
+      console.log(s.id === current ? `${ANSI.bold}${line}${ANSI.reset}` : line);
+    }
+  }
+
+  private showHistory() {
+    const history = this.adapter.getHistory();
+    if (history.length === 0) {
+      console.log(`${ANSI.gray}No messages in this session.${ANSI.reset}`);
+      return;
+    }
+    const colors: Record<string, string> = {
+      user: ANSI.green,
+      assistant: ANSI.cyan,
+      tool: ANSI.gray,
+    };
+    for (const { role, text } of history) {
+      console.log(
+        `\n${colors[role] || ANSI.yellow}${ANSI.bold}${role}${ANSI.reset}`,
+      );
+      console.log(role === "tool" ? `${ANSI.gray}${text}${ANSI.reset}` : text);
+    }
+    console.log();
+  }
+
+  private async showUsage() {
+    const report = await this.adapter.getUsageReport();
+    if (report.bySession.length === 0) {
+      console.log(`${ANSI.gray}No usage recorded yet.${ANSI.reset}`);
+      return;
+    }
+    const row = (s: UsageSummary) =>
+      `  ${s.label.padEnd(44).slice(0, 44)} ${String(s.runs).padStart(5)} ${String(s.promptTokens).padStart(10)} ${String(s.completionTokens).padStart(10)} ${`$${s.costUsd.toFixed(4)}`.padStart(10)}`;
+    const header = `  ${"".padEnd(44)} ${"runs".padStart(5)} ${"prompt".padStart(10)} ${"output".padStart(10)} ${"cost".padStart(10)}`;
+
+    console.log(
+      `\n${ANSI.bold}Per session${ANSI.reset}\n${ANSI.gray}${header}${ANSI.reset}`,
+    );
+    report.bySession.forEach((s) => console.log(row(s)));
+    console.log(
+      `\n${ANSI.bold}Per day${ANSI.reset}\n${ANSI.gray}${header}${ANSI.reset}`,
+    );
+    report.byDay.forEach((s) => console.log(row(s)));
+    console.log();
+  }
+
+  private async showUndoableRuns() {
+    const runs = await this.adapter.getUndoableRuns();
+    if (runs.length === 0) {
+      console.log(`${ANSI.gray}No file changes to undo.${ANSI.reset}`);
+      return;
+    }
+    for (const run of runs) {
+      const changed = new Date(run.changedAt)
+        .toISOString()
+        .slice(0, 19)
+        .replace("T", " ");
+      console.log(
+        `  ${run.runId.padEnd(24)} ${changed} ${run.files.length} file(s)`,
+      );
+    }
+  }
+
+  // Streams like a normal message, then prints what the run would have changed.
+  private async runDryRun(request: string) {
+    console.log(
+      `${ANSI.yellow}Dry run: the workspace will not be changed.${ANSI.reset}`,
+    );
+    const result = await this.abortable((signal) =>
+      this.adapter.dryRun(
+        request,
+        { onStream: (chunk) => process.stdout.write(chunk) },
+        signal,
+      ),
+    );
+    console.log(`\n${ANSI.cyan}Response:${ANSI.reset} ${result.response}\n`);
+
+    console.log(`${ANSI.bold}Plans (${result.plans.length})${ANSI.reset}`);
+    result.plans.forEach((plan, i) =>
+      console.log(
+        `${ANSI.gray}#${i + 1}${ANSI.reset} ${JSON.stringify(plan, null, 2)}`,
+      ),
+    );
+    console.log(
+      `\n${ANSI.bold}Patch (${result.files.length} file(s))${ANSI.reset}`,
+    );
+    this.printDiff(result.patch);
+  }
+
+  // One request at a time, with an abort controller Ctrl-C can reach.
+  private async abortable<T>(
+    run: (signal: AbortSignal) => Promise<T>,
+  ): Promise<T> {
+    this.activeRun = new AbortController();
+    try {
+      return await run(this.activeRun.signal);
+    } finally {
+      this.activeRun = undefined;
+    }
+  }
+
+  // Resolves null, and withdraws the question, if the signal aborts first.
+  private ask(query: string, signal?: AbortSignal): Promise<string | null> {
+    return new Promise((resolve) => {
+      if (signal?.aborted) return resolve(null);
+      signal?.addEventListener("abort", () => resolve(null), { once: true });
+      this.rl.question(query, { signal }, resolve);
+    });
+  }
+
+  private async askApproval(
+    request: ApprovalRequest,
+  ): Promise<ApprovalDecision> {
+    const target = request.path
+      ? ` ${request.path}${request.layer ? ` (${request.layer})` : ""}`
+      : "";
+    console.log(
+      `\n${ANSI.yellow}${ANSI.bold}Approval required: ${request.tool}${target}${ANSI.reset}`,
+    );
+    if (request.command) console.log(`  $ ${request.command}`);
+    if (request.diff !== undefined) this.printDiff(request.diff);
+
+    // Ctrl-C aborts the run, so an open question is answered as a rejection.
+    const signal = this.activeRun?.signal;
+    const aborted: ApprovalDecision = {
+      approved: false,
+      comment: "Run aborted.",
+    };
+    const choices = request.editable ? "[y]es / [n]o / [e]dit" : "[y]es / [n]o";
+    while (true) {
+      const reply = await this.ask(`Apply? ${choices}: `, signal);
+      if (reply === null) return aborted;
+      const answer = reply.trim().toLowerCase();
+      if (answer === "y" || answer === "yes") return { approved: true };
+      if (answer === "n" || answer === "no") {
+        const comment = await this.ask("Comment for the model: ", signal);
+        if (comment === null) return aborted;
+        return { approved: false, comment: comment.trim() || undefined };
+      }
+      if (request.editable && (answer === "e" || answer === "edit")) {
+        const field = request.editable;
+        const edited = this.editInEditor(String(request.args[field] ?? ""));
+        return { approved: true, args: { ...request.args, [field]: edited } };
+      }
+    }
+  }
+
+  // Opens $VISUAL/$EDITOR on a temp copy and returns what the reviewer saved.
+  private editInEditor(text: string): string {
+    const file = path.join(os.tmpdir(), `engine-edit-${Date.now()}.txt`);
+    fs.writeFileSync(file, text);
+    this.rl.pause();
+    try {
+      spawnSync(process.env.VISUAL || process.env.EDITOR || "vi", [file], {
+        stdio: "inherit",
+      });
+      return fs.readFileSync(file, "utf-8");
+    } finally {
+      this.rl.resume();
+      fs.rmSync(file, { force: true });
+    }
+  }
+
+  private printDiff(diff: string) {
+    if (!diff) {
+      console.log(`${ANSI.gray}  (no changes)${ANSI.reset}`);
+      return;
+    }
+    for (const line of diff.trimEnd().split("\n")) {
+      const color = line.startsWith("@@")
+        ? ANSI.cyan
+        : line.startsWith("+")
+          ? ANSI.green
+          : line.startsWith("-")
+            ? ANSI.red
+            : "";
+      console.log(color ? `${color}${line}${ANSI.reset}` : line);
+    }
+  }
+
   private async sendMessage(message: string) {
     process.stdout.write(`${ANSI.cyan}Response:${ANSI.reset} `);
+    let activeToolCall: number | undefined;
     try {
-      const _response = await this.adapter.handleMessage(message, {
-        onStream: (chunk) => process.stdout.write(chunk),
-      });
+      const _response = await this.abortable((signal) =>
+        this.adapter.handleMessage(
+          message,
+          {
+            onStream: (chunk) => {
+              activeToolCall = undefined;
+              process.stdout.write(chunk);
+            },
+            onProgress: (update) => {
+              if (update.type !== "tool_call_delta") return;
+              if (update.toolCallIndex !== activeToolCall) {
+                activeToolCall = update.toolCallIndex;
+                process.stdout.write(
+                  `\n${ANSI.gray}[${update.tool}] ${ANSI.reset}`,
+                );
+              }
+              process.stdout.write(`${ANSI.gray}${update.args}${ANSI.reset}`);
+            },
+            onApproval: (request) => this.askApproval(request),
+          },
+          signal,
+        ),
+      );
       console.log("\n");
       this.rl.prompt();
     } catch (e) {
@@ -82,4 +422,78 @@ class Terminal {
   }
 }
 
-new Terminal().start();
+const AUDIT_FORMATS: AuditFormat[] = ["text", "json", "sarif"];
+const GRAPH_FORMATS: GraphFormat[] = ["dot", "json"];
+
+// Shared by the report subcommands: `[dir] [--format f] [--output file]` plus boolean flags.
+function parseReportArgs<F extends string>(
+  args: string[],
+  formats: F[],
+): { format: F; output?: string; dir?: string; flags: Set<string> } {
+  let format = formats[0];
+  let output: string | undefined;
+  let dir: string | undefined;
+  const flags = new Set<string>();
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--format") format = args[++i] as F;
+    else if (args[i] === "--output") output = args[++i];
+    else if (args[i].startsWith("--")) flags.add(args[i].slice(2));
+    else dir = args[i];
+  }
+  if (!formats.includes(format)) {
+    console.error(
+      `Unknown format '${format}'. Expected one of: ${formats.join(", ")}.`,
+    );
+    process.exit(2);
+  }
+  return { format, output, dir, flags };
+}
+
+function writeReport(report: string, output: string | undefined) {
+  if (output) fs.writeFileSync(path.resolve(output), `${report}\n`);
+  else console.log(report);
+}
+
+// `audit [dir] [--format text|json|sarif] [--output file]`: exits 1 on violations, 2 when the audit cannot run.
+async function audit(args: string[]) {
+  const { format, output, dir } = parseReportArgs(args, AUDIT_FORMATS);
+  try {
+    const result = await runAudit(process.cwd(), format, dir);
+    writeReport(result.output, output);
+    if (output) {
+      console.error(
+        `${result.report.violations.length} violation(s); report written to ${output}`,
+      );
+    }
+    process.exit(result.report.violations.length > 0 ? 1 : 0);
+  } catch (e: any) {
+    console.error(`Audit failed: ${e.message}`);
+    process.exit(2);
+  }
+}
+
+// `graph [dir] [--format dot|json] [--layers] [--output file]`: import cycles are listed on stderr.
+async function graph(args: string[]) {
+  const { format, output, dir, flags } = parseReportArgs(args, GRAPH_FORMATS);
+  try {
+    const result = await runGraph(
+      process.cwd(),
+      format,
+      flags.has("layers"),
+      dir,
+    );
+    writeReport(result.output, output);
+    if (result.cycles.length > 0) {
+      console.error(`${result.cycles.length} import cycle(s):`);
+      result.cycles.forEach((c) => console.error(`  ${c}`));
+    }
+    process.exit(0);
+  } catch (e: any) {
+    console.error(`Graph failed: ${e.message}`);
+    process.exit(2);
+  }
+}
+
+if (process.argv[2] === "audit") audit(process.argv.slice(3));
+else if (process.argv[2] === "graph") graph(process.argv.slice(3));
+else new Terminal().start();
@@ -2,6 +2,12 @@ import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
 import { getDb } from "../infrastructure/Config.js";
+import {
+  RunTelemetry,
+  SessionSnapshot,
+  UsageReport,
+  UsageSummary,
+} from "../domain/types.js";
 
 const ROOT_DIR = path.join(os.homedir(), ".engine");
 
@@ -19,7 +25,11 @@ export class Storage {
 
   static async getSessions(): Promise<Record<string, any[]>> {
     const db = await getDb();
-    const all = await db.selectFrom("sessions").selectAll().execute();
+    const all = await db
+      .selectFrom("sessions")
+      .selectAll()
+      .orderBy("id", "asc")
+      .execute();
     const grouped: Record<string, any[]> = {};
     for (const entry of all) {
       if (!grouped[entry.sessionId]) grouped[entry.sessionId] = [];
@@ -38,28 +48,141 @@ export class Storage {
     return grouped;
   }
 
+  private static toRow(sessionId: string, msg: any) {
+    const { role, content, ...metadata } = msg;
+    return {
+      sessionId,
+      role: role as any,
+      content: typeof content === "string" ? content : JSON.stringify(content),
+      metadata: JSON.stringify(metadata),
+    };
+  }
+
+  /** Replaces the stored history of the given sessions only; other sessions are untouched. */
   static async saveSessions(sessions: Record<string, any[]>): Promise<void> {
     const db = await getDb();
     await db.transaction().execute(async (trx) => {
-      await trx.deleteFrom("sessions").execute();
       for (const [sessionId, messages] of Object.entries(sessions)) {
+        await trx
+          .deleteFrom("sessions")
+          .where("sessionId", "=", sessionId)
+          .execute();
         for (const msg of messages) {
-          const { role, content, ...metadata } = msg;
           await trx
             .insertInto("sessions")
-            .values({
-              sessionId,
-              role: role as any,
-              content:
-                typeof content === "string" ? content : JSON.stringify(content),
-              metadata: JSON.stringify(metadata),
-            })
+            .values(Storage.toRow(sessionId, msg))
             .execute();
         }
       }
     });
   }
 
+  static async appendMessage(sessionId: string, message: any): Promise<void> {
+    const db = await getDb();
+    const now = Date.now();
+    await db.transaction().execute(async (trx) => {
+      await trx
+        .insertInto("sessions")
+        .values(Storage.toRow(sessionId, message))
+        .execute();
+      await trx
+        .insertInto("session_metadata")
+        .values({
+          id: sessionId,
+          title: "New Session",
+          lastModified: now,
+          isPinned: 0,
+        })
+        .onConflict((oc) => oc.column("id").doUpdateSet({ lastModified: now }))
+        .execute();
+    });
+  }
+
+  static async getSessionRuns(sessionId: string): Promise<RunTelemetry[]> {
+    const db = await getDb();
+    const rows = await db
+      .selectFrom("run_usage")
+      .selectAll()
+      .where("sessionId", "=", sessionId)
+      .orderBy("startedAt", "asc")
+      .execute();
+    return rows.map((r) => {
+      if (r.telemetry) return JSON.parse(r.telemetry) as RunTelemetry;
+      // Rows saved before the full telemetry was kept.
+      return {
+        runId: r.runId,
+        startedAt: r.startedAt,
+        completedAt: r.completedAt ?? undefined,
+        success: !!r.success,
+        usage: {
+          promptTokens: r.promptTokens,
+          completionTokens: r.completionTokens,
+          cachedTokens: r.cachedTokens,
+          costUsd: r.costUsd,
+          estimated: !!r.estimated,
+        },
+      };
+    });
+  }
+
+  /** Writes a whole session under `sessionId`, e.g. when importing an export from another machine. */
+  static async importSession(
+    sessionId: string,
+    snapshot: SessionSnapshot,
+  ): Promise<void> {
+    const db = await getDb();
+    await db.transaction().execute(async (trx) => {
+      await trx
+        .insertInto("session_metadata")
+        .values({
+          id: sessionId,
+          title: snapshot.metadata.title,
+          lastModified: snapshot.metadata.lastModified,
+          isPinned: snapshot.metadata.isPinned ? 1 : 0,
+        })
+        .execute();
+      for (const msg of snapshot.messages) {
+        await trx
+          .insertInto("sessions")
+          .values(Storage.toRow(sessionId, msg))
+          .execute();
+      }
+      for (const run of snapshot.runs) {
+        await trx
+          .insertInto("run_usage")
+          .values({
+            // Run ids are table-unique; suffix them so re-importing the same export cannot collide.
+            runId: `${run.runId}@${sessionId}`,
+            sessionId,
+            startedAt: run.startedAt,
+            completedAt: run.completedAt ?? null,
+            success: run.success ? 1 : 0,
+            promptTokens: run.usage?.promptTokens ?? 0,
+            completionTokens: run.usage?.completionTokens ?? 0,
+            cachedTokens: run.usage?.cachedTokens ?? 0,
+            costUsd: run.usage?.costUsd ?? 0,
+            estimated: run.usage?.estimated ? 1 : 0,
+            telemetry: JSON.stringify(run),
+          })
+          .execute();
+      }
+    });
+  }
+
+  static async deleteSession(sessionId: string): Promise<void> {
+    const db = await getDb();
+    await db.transaction().execute(async (trx) => {
+      await trx
+        .deleteFrom("sessions")
+        .where("sessionId", "=", sessionId)
+        .execute();
+      await trx
+        .deleteFrom("session_metadata")
+        .where("id", "=", sessionId)
+        .execute();
+    });
+  }
+
   static async getSessionMetadata(): Promise<SessionMetadata[]> {
     const db = await getDb();
     const records = await db
@@ -105,4 +228,82 @@ export class Storage {
     await db.deleteFrom("current_session").execute();
     await db.insertInto("current_session").values({ id }).execute();
   }
+
+  static async saveRunUsage(
+    sessionId: string,
+    run: RunTelemetry,
+  ): Promise<void> {
+    // Runs that failed before any model call still get a row, with zero tokens.
+    const db = await getDb();
+    const row = {
+      runId: run.runId,
+      sessionId,
+      startedAt: run.startedAt,
+      completedAt: run.completedAt ?? null,
+      success: run.success ? 1 : 0,
+      promptTokens: run.usage?.promptTokens ?? 0,
+      completionTokens: run.usage?.completionTokens ?? 0,
+      cachedTokens: run.usage?.cachedTokens ?? 0,
+      costUsd: run.usage?.costUsd ?? 0,
+      estimated: run.usage?.estimated ? 1 : 0,
+      telemetry: JSON.stringify(run),
+    };
+    await db
+      .insertInto("run_usage")
+      .values(row)
+      .onConflict((oc) => oc.column("runId").doUpdateSet(row))
+      .execute();
+  }
+
+  static async getUsageReport(): Promise<UsageReport> {
+    const db = await getDb();
+    const rows = await db.selectFrom("run_usage").selectAll().execute();
+    const titles = new Map(
+      (
+        await db
+          .selectFrom("session_metadata")
+          .select(["id", "title"])
+          .execute()
+      ).map((m) => [m.id, m.title]),
+    );
+
+    const summarize = (
+      keyOf: (r: (typeof rows)[number]) => string,
+      labelOf: (key: string) => string,
+    ) => {
+      const groups = new Map<string, UsageSummary>();
+      for (const r of rows) {
+        const key = keyOf(r);
+        const g = groups.get(key) || {
+          key,
+          label: labelOf(key),
+          runs: 0,
+          promptTokens: 0,
+          completionTokens: 0,
+          cachedTokens: 0,
+          costUsd: 0,
+        };
+        g.runs++;
+        g.promptTokens += r.promptTokens;
+        g.completionTokens += r.completionTokens;
+        g.cachedTokens += r.cachedTokens;
+        g.costUsd += r.costUsd;
+        groups.set(key, g);
+      }
+      return Array.from(groups.values()).sort((a, b) =>
+        b.key.localeCompare(a.key),
+      );
+    };
+
+    return {
+      bySession: summarize(
+        (r) => r.sessionId,
+        (id) => titles.get(id) || id,
+      ),
+      byDay: summarize(
+        (r) => new Date(r.startedAt).toISOString().slice(0, 10),
+        (day) => day,
+      ),
+    };
+  }
 }